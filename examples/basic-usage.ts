@@ -50,11 +50,17 @@ async function basicExample() {
         if (twoFactorLoginResult.requires2FA) {
             console.log('🔐 2FA required for admin user');
 
+            // Deliver a code to the simulated outbox and enter it
+            await simulator.send2FACode(twoFactorLoginResult.user!.id, 'email');
+            const [message] = simulator.getOutbox({
+                userId: twoFactorLoginResult.user!.id,
+            }).slice(-1);
+
             const twoFactorResult = await simulator.simulate2FA(
                 twoFactorLoginResult.user!.id,
                 {
-                    code: '123456',
-                    method: 'totp',
+                    code: message?.code ?? '',
+                    method: 'email',
                 }
             );
 
@@ -96,10 +102,14 @@ async function basicExample() {
         console.log('📝 Example 4: OAuth Login');
         console.log('─'.repeat(40));
 
+        const { authorization } = await simulator.initiateOAuth('google');
+        console.log('🔗 Redirect to:', authorization?.authorizationUrl);
+
         const oauthResult = await simulator.simulateOAuthCallback({
             code: 'oauth-code-123',
-            state: 'random-state',
+            state: authorization?.state ?? '',
             provider: 'google',
+            codeVerifier: authorization?.codeVerifier,
         });
 
         if (oauthResult.success) {
@@ -12,6 +12,10 @@ const simulator = createAuthFlowSimulator({
     delayMs: process.env.NODE_ENV === 'development' ? 200 : 100,
 });
 
+// The PKCE code verifier never reaches browser scripts: it waits in an httpOnly cookie scoped to the OAuth routes
+const VERIFIER_COOKIE = 'oauth_code_verifier';
+const VERIFIER_COOKIE_ATTRIBUTES = 'Path=/api/auth/simulate/oauth; HttpOnly; SameSite=Lax';
+
 // API route: /api/auth/simulate/login
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
@@ -88,6 +92,32 @@ export async function passwordResetHandler(req: NextApiRequest, res: NextApiResp
     }
 }
 
+// API route: /api/auth/simulate/oauth/initiate
+export async function oauthInitiateHandler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { provider } = req.body;
+    if (!provider) {
+        return res.status(400).json({ error: 'Provider is required' });
+    }
+
+    const result = await simulator.initiateOAuth(provider);
+    if (!result.success || !result.authorization) {
+        return res.status(400).json({ error: result.error, errorCode: result.errorCode });
+    }
+
+    // Only the URL to redirect to and the state go to the browser; the verifier waits in the cookie
+    const { authorizationUrl, state, codeVerifier, expiresAt } = result.authorization;
+    if (codeVerifier) {
+        const maxAge = Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+        res.setHeader('Set-Cookie', `${VERIFIER_COOKIE}=${codeVerifier}; Max-Age=${maxAge}; ${VERIFIER_COOKIE_ATTRIBUTES}`);
+    }
+
+    res.status(200).json({ authorizationUrl, state });
+}
+
 // API route: /api/auth/simulate/oauth
 export async function oauthHandler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
@@ -96,6 +126,7 @@ export async function oauthHandler(req: NextApiRequest, res: NextApiResponse) {
 
     try {
         const { code, state, provider } = req.body;
+        const codeVerifier = req.cookies[VERIFIER_COOKIE];
 
         if (!code || !state || !provider) {
             return res.status(400).json({ error: 'Code, state, and provider are required' });
@@ -105,8 +136,12 @@ export async function oauthHandler(req: NextApiRequest, res: NextApiResponse) {
             code,
             state,
             provider,
+            ...(codeVerifier && { codeVerifier }),
         });
 
+        // The verifier is single use, like the state
+        res.setHeader('Set-Cookie', `${VERIFIER_COOKIE}=; Max-Age=0; ${VERIFIER_COOKIE_ATTRIBUTES}`);
+
         res.status(200).json(result);
     } catch (error) {
         console.error('OAuth simulation error:', error);
@@ -75,6 +75,16 @@ export function AuthProvider({
         };
     }, [simulator]);
 
+    // Clear local auth state as soon as the simulator reports the session gone
+    useEffect(() => {
+        return simulator.on('session-expired', (event) => {
+            if (!session || event.data?.sessionId === session.id) {
+                setUser(null);
+                setSession(null);
+            }
+        });
+    }, [simulator, session]);
+
     // Helper function to handle results
     const handleResult = (result: AuthResult) => {
         if (result.success) {
@@ -0,0 +1,155 @@
+import type { FlowSimulation, FlowStep, FlowStepResult } from "../types/index";
+import { getSuccessors } from "./FlowGraph";
+
+const STATUS_COLORS: Record<FlowStep["status"], { fill: string; stroke: string }> = {
+  pending: { fill: "#e2e3e5", stroke: "#6c757d" },
+  "in-progress": { fill: "#cce5ff", stroke: "#007bff" },
+  completed: { fill: "#d4edda", stroke: "#28a745" },
+  failed: { fill: "#f8d7da", stroke: "#dc3545" },
+};
+
+const SEQUENCE_COLORS: Record<FlowStep["status"], string> = {
+  pending: "rgb(226, 227, 229)",
+  "in-progress": "rgb(204, 229, 255)",
+  completed: "rgb(212, 237, 218)",
+  failed: "rgb(248, 215, 218)",
+};
+
+/**
+ * Export flow simulations as diagrams
+ * Steps are coloured by status, so an executed flow shows where it failed
+ */
+export class FlowExporter {
+  /**
+   * Mermaid flowchart with one node per step and edges labelled by branch outcome
+   */
+  static toMermaidFlowchart(flow: FlowSimulation): string {
+    const nodeIds = new Map(flow.steps.map((step, index) => [step.id, `s${index}`]));
+    const lines = ["flowchart TD", `  %% ${flow.name}`];
+
+    for (const step of flow.steps) {
+      lines.push(`  ${nodeIds.get(step.id)}["${escapeMermaid(step.name)}"]`);
+    }
+
+    for (const { from, to, label } of this.getEdges(flow)) {
+      const arrow = label ? `-->|${escapeMermaid(label)}|` : "-->";
+      lines.push(`  ${nodeIds.get(from)} ${arrow} ${nodeIds.get(to)}`);
+    }
+
+    for (const [status, color] of Object.entries(STATUS_COLORS)) {
+      const members = flow.steps.filter((step) => step.status === status);
+      if (members.length === 0) {
+        continue;
+      }
+
+      const className = status.replace("-", "");
+      lines.push(`  classDef ${className} fill:${color.fill},stroke:${color.stroke}`);
+      lines.push(`  class ${members.map((step) => nodeIds.get(step.id)).join(",")} ${className}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Mermaid sequence diagram between the user, the app and the auth server
+   * Follows `results` (FlowRunner.getResults()) when given, showing every visit of retried steps;
+   * otherwise the steps in order with their current status
+   */
+  static toMermaidSequence(flow: FlowSimulation, results?: FlowStepResult[]): string {
+    const lines = [
+      "sequenceDiagram",
+      `  title ${escapeMermaid(flow.name)}`,
+      "  participant User",
+      "  participant App",
+      "  participant Auth as Auth Server",
+    ];
+
+    const visits = results
+      ? results.flatMap((result) => {
+          const step = flow.steps.find((s) => s.id === result.stepId);
+          return step ? [{ step, status: result.status, error: result.error }] : [];
+        })
+      : flow.steps.map((step) => ({ step, status: step.status, error: getStepError(step) }));
+
+    for (const { step, status, error } of visits) {
+      const name = escapeMermaid(step.name);
+
+      lines.push(`  rect ${SEQUENCE_COLORS[status]}`);
+      if (step.data?.["action"] === "none") {
+        lines.push(`    User->>App: ${name}`);
+      } else {
+        lines.push(`    App->>Auth: ${name}`);
+        lines.push(`    Auth-->>App: ${status}`);
+      }
+
+      if (status === "failed" && error) {
+        lines.push(`    Note over App,Auth: ${escapeMermaid(error)}`);
+      }
+      lines.push("  end");
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Graphviz DOT digraph with one node per step and edges labelled by branch outcome
+   */
+  static toDot(flow: FlowSimulation): string {
+    const lines = [
+      `digraph ${quoteDot(flow.id)} {`,
+      `  label=${quoteDot(flow.name)};`,
+      "  rankdir=TB;",
+      '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    ];
+
+    for (const step of flow.steps) {
+      const color = STATUS_COLORS[step.status];
+      const tooltip = getStepError(step) ?? step.description;
+      lines.push(
+        `  ${quoteDot(step.id)} [label=${quoteDot(step.name)}, fillcolor=${quoteDot(color.fill)}, ` +
+          `color=${quoteDot(color.stroke)}, tooltip=${quoteDot(tooltip)}];`
+      );
+    }
+
+    for (const { from, to, label } of this.getEdges(flow)) {
+      const attributes = label ? ` [label=${quoteDot(label)}]` : "";
+      lines.push(`  ${quoteDot(from)} -> ${quoteDot(to)}${attributes};`);
+    }
+
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  private static getEdges(flow: FlowSimulation): { from: string; to: string; label?: string }[] {
+    const ids = new Set(flow.steps.map((step) => step.id));
+
+    return flow.steps.flatMap((step) =>
+      getSuccessors(flow, step)
+        .filter((to) => ids.has(to))
+        .map((to) => {
+          const outcomes = Object.entries(step.branches ?? {})
+            .filter(([, target]) => target === to)
+            .map(([outcome]) => outcome);
+
+          return {
+            from: step.id,
+            to,
+            ...(outcomes.length > 0 && { label: outcomes.join(" / ") }),
+          };
+        })
+    );
+  }
+}
+
+function getStepError(step: FlowStep): string | undefined {
+  const run = step.data?.["run"] as { error?: string } | undefined;
+  return run?.error;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/[\n\r]+/g, " ");
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
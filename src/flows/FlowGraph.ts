@@ -0,0 +1,170 @@
+import type {
+  FlowSimulation,
+  FlowStep,
+  FlowStepAction,
+  FlowValidationResult,
+} from "../types/index";
+
+/**
+ * Actions a step can name in `data.action`
+ */
+export const FLOW_STEP_ACTIONS: FlowStepAction[] = [
+  "login",
+  "send-2fa-code",
+  "2fa",
+  "password-reset-request",
+  "password-reset-confirm",
+  "oauth-initiate",
+  "oauth-callback",
+  "logout",
+  "session-check",
+  "none",
+];
+
+/**
+ * Check whether a flow routes with nextSteps/branches rather than running its steps in order
+ */
+export function isBranchingFlow(flow: FlowSimulation): boolean {
+  return flow.steps.some((step) => step.nextSteps !== undefined || step.branches !== undefined);
+}
+
+/**
+ * Get the ids of the steps that can follow a step
+ */
+export function getSuccessors(flow: FlowSimulation, step: FlowStep): string[] {
+  if (!isBranchingFlow(flow)) {
+    const next = flow.steps[flow.steps.indexOf(step) + 1];
+    return next ? [next.id] : [];
+  }
+
+  const successors = [...(step.nextSteps ?? []), ...Object.values(step.branches ?? {})];
+  return [...new Set(successors)];
+}
+
+/**
+ * Find groups of steps that form cycles (strongly connected components)
+ */
+export function findCycles(flow: FlowSimulation): string[][] {
+  const stepsById = new Map(flow.steps.map((step) => [step.id, step]));
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let index = 0;
+
+  // Tarjan's algorithm; flows are small enough for recursion
+  const visit = (id: string): void => {
+    indexes.set(id, index);
+    lowLinks.set(id, index);
+    index += 1;
+    stack.push(id);
+    onStack.add(id);
+
+    const successors = getSuccessors(flow, stepsById.get(id)!).filter((s) => stepsById.has(s));
+    for (const successor of successors) {
+      if (!indexes.has(successor)) {
+        visit(successor);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(successor)!));
+      } else if (onStack.has(successor)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indexes.get(successor)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indexes.get(id)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.unshift(member);
+      } while (member !== id);
+
+      if (component.length > 1 || successors.includes(id)) {
+        cycles.push(component);
+      }
+    }
+  };
+
+  for (const step of flow.steps) {
+    if (!indexes.has(step.id)) {
+      visit(step.id);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Validate a flow's structure
+ * Reports duplicate ids, unknown actions, unknown or unlisted targets, steps unreachable from the
+ * first step and cycles with no step bounding them through `maxVisits`
+ */
+export function validateFlow(flow: FlowSimulation): FlowValidationResult {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  for (const step of flow.steps) {
+    if (ids.has(step.id)) {
+      errors.push(`Duplicate step id: ${step.id}`);
+    }
+    ids.add(step.id);
+  }
+
+  for (const step of flow.steps) {
+    const action = step.data?.["action"];
+    if (action !== undefined && !FLOW_STEP_ACTIONS.includes(action as FlowStepAction)) {
+      errors.push(`Step ${step.id} has unknown action: ${String(action)}`);
+    }
+
+    for (const target of step.nextSteps ?? []) {
+      if (!ids.has(target)) {
+        errors.push(`Step ${step.id} has unknown next step: ${target}`);
+      }
+    }
+
+    for (const [outcome, target] of Object.entries(step.branches ?? {})) {
+      if (!ids.has(target)) {
+        errors.push(`Step ${step.id} has unknown ${outcome} branch: ${target}`);
+      } else if (!step.nextSteps?.includes(target)) {
+        errors.push(`Step ${step.id} ${outcome} branch ${target} is not listed in nextSteps`);
+      }
+    }
+
+    if (step.maxVisits !== undefined && step.maxVisits < 1) {
+      errors.push(`Step ${step.id} has maxVisits below 1`);
+    }
+  }
+
+  const first = flow.steps[0];
+  if (first) {
+    const reachable = new Set<string>([first.id]);
+    const queue = [first];
+    for (let step = queue.shift(); step; step = queue.shift()) {
+      for (const successor of getSuccessors(flow, step)) {
+        const next = flow.steps.find((s) => s.id === successor);
+        if (next && !reachable.has(next.id)) {
+          reachable.add(next.id);
+          queue.push(next);
+        }
+      }
+    }
+
+    for (const step of flow.steps) {
+      if (!reachable.has(step.id)) {
+        errors.push(`Step ${step.id} is unreachable`);
+      }
+    }
+  }
+
+  for (const cycle of findCycles(flow)) {
+    const bounded = cycle.some(
+      (id) => flow.steps.find((s) => s.id === id)?.maxVisits !== undefined
+    );
+    if (!bounded) {
+      errors.push(`Unbounded cycle: ${[...cycle, cycle[0]].join(" -> ")}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,426 @@
+import type {
+  AuthResult,
+  FlowRunContext,
+  FlowRunInput,
+  FlowSimulation,
+  FlowStep,
+  FlowStepAction,
+  FlowStepOutcome,
+  FlowStepResult,
+  OTPDeliveryChannel,
+  TwoFactorCode,
+  User,
+} from "../types/index";
+import type { AuthFlowSimulator } from "../simulators/AuthFlowSimulator";
+import { FLOW_STEP_ACTIONS, isBranchingFlow, validateFlow } from "./FlowGraph";
+
+interface StepExecution {
+  outcome: FlowStepOutcome;
+  result?: AuthResult;
+  error?: string; // set when the step failed
+}
+
+/**
+ * Executes a FlowSimulation against an AuthFlowSimulator
+ *
+ * Each step runs the simulator operation named by `step.data.action`, falling back to one
+ * derived from `step.type`. Set `step.data.expectFailure` for steps where a failed operation
+ * is the expected outcome, e.g. checking a session that should have expired.
+ *
+ * Flows whose steps declare `nextSteps` or `branches` are run as graphs: the step's outcome
+ * picks its branch, and `maxVisits` bounds retry loops. Other flows run their steps in order.
+ */
+export class FlowRunner {
+  private context: FlowRunContext = {};
+  private results: FlowStepResult[] = [];
+  private visits = new Map<string, number>();
+  private validated = false;
+
+  constructor(
+    private simulator: AuthFlowSimulator,
+    private flow: FlowSimulation,
+    private input: FlowRunInput = {}
+  ) {}
+
+  /**
+   * Run the current step and move to the step its outcome leads to
+   * Returns undefined once the flow has completed or failed
+   */
+  async step(): Promise<FlowStepResult | undefined> {
+    if (this.isFinished()) {
+      return undefined;
+    }
+
+    if (!this.validated) {
+      this.validated = true;
+      const validation = validateFlow(this.flow);
+      if (!validation.valid) {
+        this.fail(undefined, `Invalid flow: ${validation.errors.join("; ")}`);
+        return undefined;
+      }
+    }
+
+    const step = this.flow.steps[this.flow.currentStepIndex];
+    if (!step) {
+      this.complete();
+      return undefined;
+    }
+
+    const action = this.resolveAction(step);
+    this.flow.status = "in-progress";
+    step.status = "in-progress";
+
+    const visits = (this.visits.get(step.id) ?? 0) + 1;
+    this.visits.set(step.id, visits);
+
+    const startedAt = this.simulator.getClock().now();
+    let execution: StepExecution;
+    if (step.maxVisits !== undefined && visits > step.maxVisits) {
+      execution = {
+        outcome: "exhausted",
+        error: `Step ${step.id} exceeded ${step.maxVisits} visits`,
+      };
+    } else {
+      try {
+        execution = await this.execute(action, step);
+      } catch (error) {
+        execution = {
+          outcome: "failure",
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+    const completedAt = this.simulator.getClock().now();
+
+    const route = this.route(step, execution);
+    const stepResult: FlowStepResult = {
+      stepId: step.id,
+      action,
+      status: execution.error !== undefined ? "failed" : "completed",
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      outcome: execution.outcome,
+      ...(route.nextStepId !== undefined && { nextStepId: route.nextStepId }),
+      ...(execution.result && { result: execution.result }),
+      ...(execution.error !== undefined && { error: execution.error }),
+    };
+
+    step.status = stepResult.status;
+    step.data = { ...step.data, run: stepResult };
+    this.results.push(stepResult);
+
+    if (route.error !== undefined) {
+      this.fail(step.id, route.error);
+    } else if (route.nextStepId !== undefined) {
+      this.flow.currentStepIndex = this.flow.steps.findIndex((s) => s.id === route.nextStepId);
+    } else {
+      this.flow.currentStepIndex = this.flow.steps.length;
+      this.complete();
+    }
+
+    return stepResult;
+  }
+
+  /**
+   * Run steps until the flow completes or a step fails
+   */
+  async run(): Promise<FlowSimulation> {
+    while (await this.step()) {
+      // Keep stepping
+    }
+    return this.flow;
+  }
+
+  /**
+   * Get the flow being executed
+   */
+  getFlow(): FlowSimulation {
+    return this.flow;
+  }
+
+  /**
+   * Get the user, session and tokens gathered so far
+   */
+  getContext(): FlowRunContext {
+    return { ...this.context };
+  }
+
+  /**
+   * Get the results of the steps run so far
+   */
+  getResults(): FlowStepResult[] {
+    return [...this.results];
+  }
+
+  /**
+   * Get the ids of the steps visited so far, in order, including revisits
+   */
+  getTrace(): string[] {
+    return this.results.map((result) => result.stepId);
+  }
+
+  private isFinished(): boolean {
+    return this.flow.status === "completed" || this.flow.status === "failed";
+  }
+
+  private complete(): void {
+    this.flow.status = "completed";
+    this.flow.completedAt = this.simulator.getClock().now();
+  }
+
+  private fail(stepId: string | undefined, error: string): void {
+    this.flow.status = "failed";
+    if (stepId !== undefined) {
+      this.flow.failedStepId = stepId;
+    }
+    this.flow.error = error;
+    this.flow.completedAt = this.simulator.getClock().now();
+  }
+
+  /**
+   * Pick the next step from the outcome's branch, otherwise the first of nextSteps
+   * (or the following step in linear flows). Unhandled failures end the flow.
+   */
+  private route(step: FlowStep, execution: StepExecution): { nextStepId?: string; error?: string } {
+    const branch = step.branches?.[execution.outcome];
+    if (branch !== undefined) {
+      return { nextStepId: branch };
+    }
+
+    if (execution.error !== undefined) {
+      return { error: execution.error };
+    }
+
+    const next = isBranchingFlow(this.flow)
+      ? step.nextSteps?.[0]
+      : this.flow.steps[this.flow.steps.indexOf(step) + 1]?.id;
+
+    return next !== undefined ? { nextStepId: next } : {};
+  }
+
+  private resolveAction(step: FlowStep): FlowStepAction {
+    const action = step.data?.["action"];
+    if (action !== undefined) {
+      if (!FLOW_STEP_ACTIONS.includes(action as FlowStepAction)) {
+        throw new Error(`Unknown action "${String(action)}" on step ${step.id}`);
+      }
+      return action as FlowStepAction;
+    }
+
+    switch (step.type) {
+      case "login":
+        return "login";
+      case "2fa":
+        return "2fa";
+      case "password-reset":
+        return this.context.resetToken ? "password-reset-confirm" : "password-reset-request";
+      case "oauth":
+        return this.context.oauth ? "oauth-callback" : "oauth-initiate";
+      case "logout":
+        return "logout";
+      case "session-check":
+        return "session-check";
+    }
+  }
+
+  private async execute(action: FlowStepAction, step: FlowStep): Promise<StepExecution> {
+    const expectFailure = step.data?.["expectFailure"] === true;
+    const result = await this.perform(action, step);
+
+    if (typeof result === "string") {
+      return { outcome: "failure", error: result };
+    }
+
+    if (!result) {
+      return { outcome: "success" };
+    }
+
+    // A login that asks for 2FA moved the flow forward, it didn't fail
+    const outcome: FlowStepOutcome =
+      action === "login" && result.requires2FA
+        ? "requires-2fa"
+        : result.success
+          ? "success"
+          : "failure";
+
+    if ((outcome !== "failure") === expectFailure) {
+      return {
+        outcome,
+        result,
+        error: expectFailure ? `Expected ${action} to fail` : (result.error ?? `${action} failed`),
+      };
+    }
+
+    return { outcome, result };
+  }
+
+  /**
+   * Perform the simulator call for an action
+   * Returns an error message when the flow is missing what the action needs
+   */
+  private async perform(
+    action: FlowStepAction,
+    step: FlowStep
+  ): Promise<AuthResult | string | undefined> {
+    switch (action) {
+      case "none":
+        return undefined;
+
+      case "login": {
+        if (!this.input.credentials) {
+          return "No credentials provided for login";
+        }
+        const result = await this.simulator.simulateLogin(this.input.credentials);
+        this.track(result);
+        this.context.pending2FA = result.requires2FA === true;
+        return result;
+      }
+
+      case "send-2fa-code": {
+        if (!this.context.user) {
+          return "No user to send a 2FA code to";
+        }
+        if (!this.context.pending2FA) {
+          return undefined;
+        }
+        const channel = (step.data?.["channel"] as OTPDeliveryChannel | undefined) ?? "sms";
+        return this.simulator.send2FACode(this.context.user.id, channel);
+      }
+
+      case "2fa": {
+        if (!this.context.user) {
+          return "No user awaiting 2FA";
+        }
+        if (!this.context.pending2FA) {
+          // Logged in without a challenge, nothing to verify
+          return undefined;
+        }
+        const code = this.resolveTwoFactorCode(this.context.user);
+        if (!code) {
+          return "No 2FA code available";
+        }
+        const result = await this.simulator.simulate2FA(this.context.user.id, code);
+        this.track(result);
+        if (result.success) {
+          this.context.pending2FA = false;
+        }
+        return result;
+      }
+
+      case "password-reset-request": {
+        const email =
+          this.input.passwordReset?.email ??
+          this.input.credentials?.email ??
+          this.context.user?.email;
+        if (!email) {
+          return "No email provided for password reset";
+        }
+        const result = await this.simulator.simulatePasswordResetRequest({
+          email,
+          ...(this.input.passwordReset?.redirectUrl && {
+            redirectUrl: this.input.passwordReset.redirectUrl,
+          }),
+        });
+        const resetToken = this.findIssuedResetToken(email);
+        if (resetToken) {
+          this.context.resetToken = resetToken;
+        }
+        return result;
+      }
+
+      case "password-reset-confirm": {
+        if (!this.input.passwordReset) {
+          return "No new password provided for password reset";
+        }
+        if (!this.context.resetToken) {
+          return "No reset token issued";
+        }
+        return this.simulator.simulatePasswordResetConfirm({
+          token: this.context.resetToken,
+          newPassword: this.input.passwordReset.newPassword,
+        });
+      }
+
+      case "oauth-initiate": {
+        const provider =
+          (step.data?.["provider"] as string | undefined) ?? this.input.oauthCallback?.provider;
+        if (!provider) {
+          return "No OAuth provider to initiate";
+        }
+        const result = await this.simulator.initiateOAuth(provider);
+        if (result.authorization) {
+          this.context.oauth = result.authorization;
+        }
+        return result;
+      }
+
+      case "oauth-callback": {
+        if (!this.input.oauthCallback) {
+          return "No OAuth callback provided";
+        }
+        const { oauth } = this.context;
+        const result = await this.simulator.simulateOAuthCallback({
+          state: oauth?.state ?? "",
+          ...(oauth?.codeVerifier !== undefined && { codeVerifier: oauth.codeVerifier }),
+          ...this.input.oauthCallback,
+        });
+        this.track(result);
+        return result;
+      }
+
+      case "logout": {
+        const sessionId = this.context.session?.id ?? this.input.sessionId;
+        if (!sessionId) {
+          return "No session to log out";
+        }
+        const result = await this.simulator.simulateLogout(sessionId);
+        if (result.success) {
+          delete this.context.session;
+        }
+        return result;
+      }
+
+      case "session-check": {
+        const sessionId = this.context.session?.id ?? this.input.sessionId;
+        if (!sessionId) {
+          return "No session to check";
+        }
+        return this.simulator.checkSession(sessionId);
+      }
+    }
+  }
+
+  private track(result: AuthResult): void {
+    if (result.user) {
+      this.context.user = result.user;
+    }
+    if (result.session) {
+      this.context.session = result.session;
+    }
+  }
+
+  private resolveTwoFactorCode(user: User): TwoFactorCode | undefined {
+    if (this.input.twoFactorCode) {
+      return this.input.twoFactorCode;
+    }
+
+    const message = this.simulator.getOutbox({ userId: user.id }).pop();
+    if (message && !message.usedAt) {
+      return { code: message.code, method: message.channel };
+    }
+
+    const totpCode = this.simulator.getCurrentTOTPCode(user.id);
+    return totpCode ? { code: totpCode, method: "totp" } : undefined;
+  }
+
+  private findIssuedResetToken(email: string): string | undefined {
+    const event = this.simulator
+      .getEvents()
+      .filter((e) => e.type === "password-reset-requested" && e.data?.["email"] === email)
+      .pop();
+    const token = event?.data?.["resetToken"];
+
+    return typeof token === "string" ? token : undefined;
+  }
+}
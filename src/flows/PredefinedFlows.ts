@@ -1,7 +1,9 @@
 import type { FlowSimulation } from "../types/index";
+import { DEFAULT_CONFIG } from "../simulators/defaults";
 
 /**
  * Predefined authentication flow simulations
+ * Each step's `data.action` names the simulator call FlowRunner makes for it; "none" marks UI-only steps
  */
 export class PredefinedFlows {
   /**
@@ -19,6 +21,7 @@ export class PredefinedFlows {
           description: "User enters email and password",
           type: "login",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "validate-credentials",
@@ -26,6 +29,7 @@ export class PredefinedFlows {
           description: "System validates email and password",
           type: "login",
           status: "pending",
+          data: { action: "login" },
         },
         {
           id: "create-session",
@@ -33,6 +37,7 @@ export class PredefinedFlows {
           description: "System creates user session",
           type: "session-check",
           status: "pending",
+          data: { action: "session-check" },
         },
         {
           id: "redirect-dashboard",
@@ -40,6 +45,7 @@ export class PredefinedFlows {
           description: "User is redirected to dashboard",
           type: "login",
           status: "pending",
+          data: { action: "none" },
         },
       ],
       currentStepIndex: 0,
@@ -63,6 +69,7 @@ export class PredefinedFlows {
           description: "User enters email and password",
           type: "login",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "validate-credentials",
@@ -70,6 +77,7 @@ export class PredefinedFlows {
           description: "System validates email and password",
           type: "login",
           status: "pending",
+          data: { action: "login" },
         },
         {
           id: "request-2fa",
@@ -77,6 +85,7 @@ export class PredefinedFlows {
           description: "System requests 2FA code from user",
           type: "2fa",
           status: "pending",
+          data: { action: "send-2fa-code", channel: "sms" },
         },
         {
           id: "enter-2fa-code",
@@ -84,6 +93,7 @@ export class PredefinedFlows {
           description: "User enters 2FA code",
           type: "2fa",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "validate-2fa",
@@ -91,6 +101,7 @@ export class PredefinedFlows {
           description: "System validates 2FA code",
           type: "2fa",
           status: "pending",
+          data: { action: "2fa" },
         },
         {
           id: "create-session",
@@ -98,6 +109,7 @@ export class PredefinedFlows {
           description: "System creates user session",
           type: "session-check",
           status: "pending",
+          data: { action: "session-check" },
         },
         {
           id: "redirect-dashboard",
@@ -105,6 +117,111 @@ export class PredefinedFlows {
           description: "User is redirected to dashboard",
           type: "login",
           status: "pending",
+          data: { action: "none" },
+        },
+      ],
+      currentStepIndex: 0,
+      status: "not-started",
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Login flow that branches on the login outcome
+   * Asks for 2FA only when required and allows `maxCodeAttempts` wrong codes. Wrong codes count
+   * towards the simulator's `maxLoginAttempts`, so with the same limit the last step finds the
+   * account locked.
+   */
+  static createBranchingLoginFlow(
+    maxCodeAttempts: number = DEFAULT_CONFIG.maxLoginAttempts
+  ): FlowSimulation {
+    return {
+      id: "branching-login",
+      name: "Branching Login Flow",
+      description: "Login flow with optional 2FA, code retries and lockout",
+      steps: [
+        {
+          id: "enter-credentials",
+          name: "Enter Credentials",
+          description: "User enters email and password",
+          type: "login",
+          status: "pending",
+          data: { action: "none" },
+          nextSteps: ["validate-credentials"],
+        },
+        {
+          id: "validate-credentials",
+          name: "Validate Credentials",
+          description: "System validates email and password",
+          type: "login",
+          status: "pending",
+          data: { action: "login" },
+          nextSteps: ["request-2fa", "create-session", "show-login-error"],
+          branches: {
+            "requires-2fa": "request-2fa",
+            success: "create-session",
+            failure: "show-login-error",
+          },
+        },
+        {
+          id: "request-2fa",
+          name: "Request 2FA Code",
+          description: "System sends a 2FA code to the user",
+          type: "2fa",
+          status: "pending",
+          data: { action: "send-2fa-code", channel: "sms" },
+          nextSteps: ["validate-2fa"],
+        },
+        {
+          id: "validate-2fa",
+          name: "Validate 2FA",
+          description: "System validates the 2FA code, letting the user retry",
+          type: "2fa",
+          status: "pending",
+          data: { action: "2fa" },
+          nextSteps: ["create-session", "validate-2fa", "2fa-lockout"],
+          branches: {
+            success: "create-session",
+            failure: "validate-2fa",
+            exhausted: "2fa-lockout",
+          },
+          maxVisits: maxCodeAttempts,
+        },
+        {
+          id: "create-session",
+          name: "Create Session",
+          description: "System creates user session",
+          type: "session-check",
+          status: "pending",
+          data: { action: "session-check" },
+          nextSteps: ["redirect-dashboard"],
+        },
+        {
+          id: "redirect-dashboard",
+          name: "Redirect to Dashboard",
+          description: "User is redirected to dashboard",
+          type: "login",
+          status: "pending",
+          data: { action: "none" },
+          nextSteps: [],
+        },
+        {
+          id: "show-login-error",
+          name: "Show Login Error",
+          description: "Display invalid credentials message",
+          type: "login",
+          status: "pending",
+          data: { action: "none" },
+          nextSteps: [],
+        },
+        {
+          id: "2fa-lockout",
+          name: "2FA Lockout",
+          description: "Too many wrong codes, logging in again is refused until the lockout ends",
+          type: "2fa",
+          status: "pending",
+          data: { action: "login", expectFailure: true },
+          nextSteps: [],
         },
       ],
       currentStepIndex: 0,
@@ -128,6 +245,7 @@ export class PredefinedFlows {
           description: "User requests password reset",
           type: "password-reset",
           status: "pending",
+          data: { action: "password-reset-request" },
         },
         {
           id: "send-email",
@@ -135,6 +253,7 @@ export class PredefinedFlows {
           description: "System sends reset email to user",
           type: "password-reset",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "click-reset-link",
@@ -142,6 +261,7 @@ export class PredefinedFlows {
           description: "User clicks reset link in email",
           type: "password-reset",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "enter-new-password",
@@ -149,6 +269,7 @@ export class PredefinedFlows {
           description: "User enters new password",
           type: "password-reset",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "confirm-password",
@@ -156,6 +277,7 @@ export class PredefinedFlows {
           description: "User confirms new password",
           type: "password-reset",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "update-password",
@@ -163,6 +285,7 @@ export class PredefinedFlows {
           description: "System updates user password",
           type: "password-reset",
           status: "pending",
+          data: { action: "password-reset-confirm" },
         },
         {
           id: "redirect-login",
@@ -170,6 +293,7 @@ export class PredefinedFlows {
           description: "User is redirected to login page",
           type: "password-reset",
           status: "pending",
+          data: { action: "none" },
         },
       ],
       currentStepIndex: 0,
@@ -193,6 +317,7 @@ export class PredefinedFlows {
           description: `User clicks "Login with ${provider}"`,
           type: "oauth",
           status: "pending",
+          data: { action: "oauth-initiate", provider: provider.toLowerCase() },
         },
         {
           id: "redirect-provider",
@@ -200,6 +325,7 @@ export class PredefinedFlows {
           description: `User is redirected to ${provider}`,
           type: "oauth",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "provider-auth",
@@ -207,6 +333,7 @@ export class PredefinedFlows {
           description: `User authenticates with ${provider}`,
           type: "oauth",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "oauth-callback",
@@ -214,6 +341,7 @@ export class PredefinedFlows {
           description: `${provider} redirects back with code`,
           type: "oauth",
           status: "pending",
+          data: { action: "oauth-callback" },
         },
         {
           id: "exchange-code",
@@ -221,6 +349,7 @@ export class PredefinedFlows {
           description: "System exchanges code for access token",
           type: "oauth",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "get-user-info",
@@ -228,6 +357,7 @@ export class PredefinedFlows {
           description: "System fetches user info from provider",
           type: "oauth",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "create-or-update-user",
@@ -235,6 +365,7 @@ export class PredefinedFlows {
           description: "System creates or updates user account",
           type: "oauth",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "create-session",
@@ -242,6 +373,7 @@ export class PredefinedFlows {
           description: "System creates user session",
           type: "session-check",
           status: "pending",
+          data: { action: "session-check" },
         },
         {
           id: "redirect-dashboard",
@@ -249,6 +381,7 @@ export class PredefinedFlows {
           description: "User is redirected to dashboard",
           type: "login",
           status: "pending",
+          data: { action: "none" },
         },
       ],
       currentStepIndex: 0,
@@ -272,6 +405,7 @@ export class PredefinedFlows {
           description: "System detects expired session",
           type: "session-check",
           status: "pending",
+          data: { action: "session-check", expectFailure: true },
         },
         {
           id: "clear-session",
@@ -279,6 +413,7 @@ export class PredefinedFlows {
           description: "System clears expired session data",
           type: "session-check",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "redirect-login",
@@ -286,6 +421,7 @@ export class PredefinedFlows {
           description: "User is redirected to login page",
           type: "logout",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "show-message",
@@ -293,6 +429,7 @@ export class PredefinedFlows {
           description: "Display session expired message to user",
           type: "logout",
           status: "pending",
+          data: { action: "none" },
         },
       ],
       currentStepIndex: 0,
@@ -316,6 +453,7 @@ export class PredefinedFlows {
           description: "User clicks logout button",
           type: "logout",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "clear-session",
@@ -323,6 +461,7 @@ export class PredefinedFlows {
           description: "System clears user session",
           type: "logout",
           status: "pending",
+          data: { action: "logout" },
         },
         {
           id: "clear-cookies",
@@ -330,6 +469,7 @@ export class PredefinedFlows {
           description: "System clears authentication cookies",
           type: "logout",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "redirect-login",
@@ -337,6 +477,7 @@ export class PredefinedFlows {
           description: "User is redirected to login page",
           type: "logout",
           status: "pending",
+          data: { action: "none" },
         },
         {
           id: "show-logout-message",
@@ -344,6 +485,7 @@ export class PredefinedFlows {
           description: "Display logout confirmation message",
           type: "logout",
           status: "pending",
+          data: { action: "none" },
         },
       ],
       currentStepIndex: 0,
@@ -359,6 +501,7 @@ export class PredefinedFlows {
     return [
       this.createStandardLoginFlow(),
       this.create2FALoginFlow(),
+      this.createBranchingLoginFlow(),
       this.createPasswordResetFlow(),
       this.createOAuthFlow("Google"),
       this.createOAuthFlow("GitHub"),
@@ -3,3 +3,6 @@
  */
 
 export { PredefinedFlows } from "./PredefinedFlows";
+export { FlowRunner } from "./FlowRunner";
+export { isBranchingFlow, getSuccessors, findCycles, validateFlow } from "./FlowGraph";
+export { FlowExporter } from "./FlowExporter";
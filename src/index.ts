@@ -1,11 +1,18 @@
 /**
  * Authentication Flow Simulator
  * A comprehensive library for simulating authentication flows during development
+ *
+ * The root entry point avoids node:http and node:fs; the HTTP server, the OIDC provider and
+ * JSON file storage are exported from the `./server`, `./oidc` and `./storage/file` subpaths.
  */
 
 export * from "./types/index";
 export * from "./simulators/index";
 export * from "./flows/index";
+export * from "./scenarios/index";
+export * from "./recording/index";
+export * from "./storage/index";
+export * from "./oauth/index";
 export * from "./utils/index";
 
 // Main simulator class
@@ -0,0 +1,13 @@
+/**
+ * OAuth module exports
+ */
+
+export {
+  DEFAULT_OAUTH_PROVIDERS,
+  buildOAuthProfile,
+  createGenericProvider,
+  findOAuthAccount,
+  getAuthorizationUrl,
+  getProfileFormat,
+} from "./providers";
+export { OAUTH_PROVIDER_ERRORS, describeOAuthError } from "./outcomes";
@@ -0,0 +1,33 @@
+import type { AuthErrorCode, OAuthProviderError } from "../types/index";
+
+/**
+ * Provider errors a callback can be scripted to return
+ */
+export const OAUTH_PROVIDER_ERRORS: OAuthProviderError[] = [
+  "access_denied",
+  "invalid_scope",
+  "server_error",
+  "temporarily_unavailable",
+  "expired_code",
+];
+
+const PROVIDER_ERRORS: Record<OAuthProviderError, { errorCode: AuthErrorCode; message: string }> = {
+  access_denied: { errorCode: "oauth-access-denied", message: "The user denied access" },
+  invalid_scope: { errorCode: "oauth-invalid-scope", message: "The requested scope is invalid" },
+  server_error: { errorCode: "oauth-server-error", message: "The provider encountered an error" },
+  temporarily_unavailable: {
+    errorCode: "oauth-temporarily-unavailable",
+    message: "The provider is temporarily unavailable",
+  },
+  expired_code: { errorCode: "oauth-code-expired", message: "The authorization code has expired" },
+};
+
+/**
+ * The AuthErrorCode and default message a provider error surfaces as
+ */
+export function describeOAuthError(error: OAuthProviderError): {
+  errorCode: AuthErrorCode;
+  message: string;
+} {
+  return PROVIDER_ERRORS[error];
+}
@@ -0,0 +1,232 @@
+import type { OAuthAccount, OAuthProfile, OAuthProfileFormat, OAuthProvider } from "../types/index";
+
+const MICROSOFT_TENANT_ID = "9188040d-6c67-4c5b-b112-36a304b66dad";
+
+/**
+ * Google, GitHub and Microsoft, each with a verified and an unverified fake account
+ */
+export const DEFAULT_OAUTH_PROVIDERS: OAuthProvider[] = [
+  {
+    name: "google",
+    clientId: "google-client-id",
+    redirectUri: "http://localhost:3000/auth/callback/google",
+    scopes: ["openid", "email", "profile"],
+    accounts: [
+      {
+        id: "104729385610293847561",
+        email: "alex.morgan@example.net",
+        name: "Alex Morgan",
+        locale: "en",
+      },
+      {
+        id: "118274650193847265013",
+        email: "sam.lee@example.net",
+        emailVerified: false,
+        name: "Sam Lee",
+        locale: "en-GB",
+      },
+    ],
+  },
+  {
+    name: "github",
+    clientId: "github-client-id",
+    redirectUri: "http://localhost:3000/auth/callback/github",
+    scopes: ["read:user", "user:email"],
+    accounts: [
+      { id: "583231", username: "octocat", email: "octocat@example.org", name: "The Octocat" },
+      {
+        id: "7175891",
+        username: "hubot",
+        email: "hubot@example.org",
+        emailVerified: false,
+        name: "Hubot",
+      },
+    ],
+  },
+  {
+    name: "microsoft",
+    clientId: "microsoft-client-id",
+    redirectUri: "http://localhost:3000/auth/callback/microsoft",
+    scopes: ["openid", "email", "profile", "User.Read"],
+    accounts: [
+      {
+        id: "00000000-0000-0000-66f3-3332eca7ea81",
+        email: "megan.bowen@contoso.example",
+        name: "Megan Bowen",
+        tenantId: MICROSOFT_TENANT_ID,
+      },
+      {
+        id: "00000000-0000-0000-40c0-4a2b1f7e93d5",
+        email: "adele.vance@contoso.example",
+        emailVerified: false,
+        name: "Adele Vance",
+        tenantId: MICROSOFT_TENANT_ID,
+      },
+    ],
+  },
+];
+
+const AUTHORIZATION_URLS: Record<Exclude<OAuthProfileFormat, "generic">, string> = {
+  google: "https://accounts.google.com/o/oauth2/v2/auth",
+  github: "https://github.com/login/oauth/authorize",
+  microsoft: "https://login.microsoftonline.com/common/oauth2/v2.0/authorize",
+};
+
+// Any one of these grants access to the account's email address
+const EMAIL_SCOPES: Record<OAuthProfileFormat, string[]> = {
+  google: ["email"],
+  github: ["user:email", "user"],
+  microsoft: ["email"],
+  generic: ["email"],
+};
+
+/**
+ * Definition used for providers that were never registered: one account named after the provider
+ */
+export function createGenericProvider(name: string): OAuthProvider {
+  return {
+    name,
+    clientId: `${name}-client-id`,
+    redirectUri: `http://localhost:3000/auth/callback/${name}`,
+    scopes: ["openid", "email", "profile"],
+    profileFormat: "generic",
+    accounts: [{ id: `${name}-user`, email: `oauth-${name}@example.com`, name: `${name} User` }],
+  };
+}
+
+/**
+ * Claim shape of a provider, from `profileFormat` or its name
+ */
+export function getProfileFormat(provider: OAuthProvider): OAuthProfileFormat {
+  if (provider.profileFormat) {
+    return provider.profileFormat;
+  }
+
+  const name = provider.name.toLowerCase();
+  return name === "google" || name === "github" || name === "microsoft" ? name : "generic";
+}
+
+/**
+ * Base authorization endpoint the login redirects to
+ */
+export function getAuthorizationUrl(provider: OAuthProvider): string {
+  if (provider.authorizationUrl) {
+    return provider.authorizationUrl;
+  }
+
+  const format = getProfileFormat(provider);
+  return format === "generic"
+    ? `https://${provider.name.toLowerCase()}.example.com/oauth/authorize`
+    : AUTHORIZATION_URLS[format];
+}
+
+/**
+ * Find a provider account by id, username or email, or the first one when none is asked for
+ */
+export function findOAuthAccount(
+  provider: OAuthProvider,
+  accountId?: string
+): OAuthAccount | undefined {
+  const accounts = provider.accounts ?? [];
+  if (accountId === undefined) {
+    return accounts[0];
+  }
+
+  return accounts.find((account) =>
+    [account.id, account.username, account.email].includes(accountId)
+  );
+}
+
+/**
+ * Build the user info a provider would return for an account and the scopes granted to the client
+ */
+export function buildOAuthProfile(
+  provider: OAuthProvider,
+  account: OAuthAccount,
+  scopes: string[]
+): OAuthProfile {
+  const format = getProfileFormat(provider);
+  const emailGranted = EMAIL_SCOPES[format].some((scope) => scopes.includes(scope));
+  const email = emailGranted ? account.email : undefined;
+  const emailVerified = email !== undefined && account.emailVerified !== false;
+
+  // GitHub profiles are public; the OpenID providers only share names with the profile scope
+  const nameGranted = format === "github" || scopes.includes("profile");
+  const name = nameGranted ? account.name : undefined;
+
+  return {
+    provider: provider.name,
+    subject: account.id,
+    ...(email !== undefined && { email }),
+    emailVerified,
+    ...(name !== undefined && { name }),
+    scopes,
+    claims: buildClaims(format, account, email, emailVerified, name),
+  };
+}
+
+function buildClaims(
+  format: OAuthProfileFormat,
+  account: OAuthAccount,
+  email: string | undefined,
+  emailVerified: boolean,
+  name: string | undefined
+): Record<string, unknown> {
+  const [givenName, ...familyName] = (name ?? "").split(" ");
+  const names = name !== undefined && {
+    name,
+    given_name: givenName,
+    ...(familyName.length > 0 && { family_name: familyName.join(" ") }),
+  };
+
+  switch (format) {
+    case "google":
+      return {
+        sub: account.id,
+        ...names,
+        ...(name !== undefined && {
+          picture: account.avatarUrl ?? "https://lh3.googleusercontent.com/a/default-user",
+          locale: account.locale ?? "en",
+        }),
+        ...(email !== undefined && { email, email_verified: emailVerified }),
+      };
+
+    case "github": {
+      const login = account.username ?? account.id;
+      return {
+        id: Number.isNaN(Number(account.id)) ? account.id : Number(account.id),
+        login,
+        name: account.name,
+        avatar_url: account.avatarUrl ?? `https://avatars.githubusercontent.com/u/${account.id}`,
+        html_url: `https://github.com/${login}`,
+        type: "User",
+        email: email ?? null,
+        // What GET /user/emails returns with the user:email scope
+        ...(email !== undefined && {
+          emails: [{ email, primary: true, verified: emailVerified, visibility: "private" }],
+        }),
+      };
+    }
+
+    case "microsoft":
+      return {
+        sub: account.id,
+        oid: account.id,
+        tid: account.tenantId ?? MICROSOFT_TENANT_ID,
+        ...names,
+        preferred_username: account.email ?? account.username ?? account.id,
+        ...(email !== undefined && { email }),
+      };
+
+    case "generic":
+      return {
+        sub: account.id,
+        ...names,
+        ...(account.avatarUrl !== undefined &&
+          name !== undefined && {
+            picture: account.avatarUrl,
+          }),
+        ...(email !== undefined && { email, email_verified: emailVerified }),
+      };
+  }
+}
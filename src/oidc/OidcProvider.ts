@@ -0,0 +1,668 @@
+import { randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { URL, URLSearchParams } from "node:url";
+import type {
+  JwtPayload,
+  OidcClient,
+  OidcProviderOptions,
+  SigningKey,
+  TwoFactorCode,
+  User,
+} from "../types/index";
+import type { AuthFlowSimulator } from "../simulators/AuthFlowSimulator";
+import { signJwt, toPublicJwk, verifyJwt } from "../utils/jwt";
+import { createCodeChallenge } from "../utils/pkce";
+import { readRequestBody } from "../server/http";
+import { renderAuthorizePage, renderErrorPage } from "./pages";
+
+const SUPPORTED_SCOPES = ["openid", "profile", "email", "phone"];
+const MAX_BODY_BYTES = 64 * 1024;
+const INTERACTION_TTL = 10 * 60; // seconds to enter a 2FA code on the authorize page
+
+interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  state?: string;
+  nonce?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: "S256" | "plain";
+}
+
+interface AuthorizationCode {
+  request: AuthorizationRequest;
+  userId: string;
+  sessionId: string;
+  authTime: number;
+  expiresAt: number;
+}
+
+interface PendingInteraction {
+  request: AuthorizationRequest;
+  userId: string;
+  method: TwoFactorCode["method"];
+  expiresAt: number;
+}
+
+interface OidcResponse {
+  status: number;
+  body?: unknown;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * OAuth 2.0 error returned as `{ error, error_description }`, or appended to the redirect URI
+ * for errors raised after the client's redirect URI has been validated
+ */
+class OidcError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+/**
+ * Local OpenID Connect provider backed by an AuthFlowSimulator
+ *
+ * Implements the authorization code flow (with optional PKCE): discovery, an /authorize
+ * login and consent page that signs users in through the simulator (including 2FA), a /token
+ * endpoint issuing signed ID and access tokens, /userinfo and a JWKS endpoint. Tokens are signed
+ * with the simulator's KeyRing, so `rotateSigningKey` applies here too and the provider and the
+ * REST API publish the same JWKS.
+ */
+export class OidcProvider {
+  private server?: Server;
+  private issuer?: string;
+  private codes = new Map<string, AuthorizationCode>();
+  private interactions = new Map<string, PendingInteraction>();
+
+  constructor(
+    private simulator: AuthFlowSimulator,
+    private options: OidcProviderOptions = {}
+  ) {
+    // Clients verify ID tokens against /jwks, which can't publish a shared HS256 secret
+    const alg = options.signingKey?.alg ?? simulator.getKeyRing().getAlgorithm();
+    if (alg === "HS256") {
+      throw new Error(
+        "OidcProvider signs with RS256 or ES256: pass an asymmetric signingKey or change jwtAlgorithm"
+      );
+    }
+  }
+
+  /**
+   * Start listening, resolving with the bound address (port 0 picks a free port)
+   * The issuer defaults to this address unless one was configured.
+   */
+  listen(port: number = 4001, hostname: string = "127.0.0.1"): Promise<AddressInfo> {
+    const server = createServer((request, response) => void this.handle(request, response));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, hostname, () => {
+        server.off("error", reject);
+        const address = server.address() as AddressInfo;
+        this.issuer = `http://${hostname}:${address.port}`;
+        resolve(address);
+      });
+    });
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    delete this.server;
+    return new Promise((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Get the signing keys published on the JWKS endpoint
+   */
+  getSigningKeys(): SigningKey[] {
+    if (this.options.signingKey) {
+      return [this.options.signingKey];
+    }
+
+    // Create the first key so the JWKS isn't empty before any token is issued
+    const keyRing = this.simulator.getKeyRing();
+    keyRing.getActiveKey();
+    return keyRing.getKeys().filter((key) => key.alg !== "HS256");
+  }
+
+  /**
+   * Handle a request, e.g. when mounting the provider on an existing node:http server
+   */
+  async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    let reply: OidcResponse;
+
+    try {
+      reply = await this.dispatch(request);
+    } catch (error) {
+      reply =
+        error instanceof OidcError
+          ? { status: error.status, body: { error: error.code, error_description: error.message } }
+          : { status: 500, body: { error: "server_error", error_description: "Internal error" } };
+    }
+
+    const headers = { "Cache-Control": "no-store", ...reply.headers };
+    if (reply.html !== undefined) {
+      response
+        .writeHead(reply.status, { ...headers, "Content-Type": "text/html; charset=utf-8" })
+        .end(reply.html);
+    } else if (reply.body !== undefined) {
+      response
+        .writeHead(reply.status, {
+          ...headers,
+          "Content-Type": "application/json; charset=utf-8",
+          "Access-Control-Allow-Origin": "*",
+        })
+        .end(JSON.stringify(reply.body));
+    } else {
+      response.writeHead(reply.status, headers).end();
+    }
+  }
+
+  private async dispatch(request: IncomingMessage): Promise<OidcResponse> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const issuer = this.options.issuer ?? this.issuer ?? `http://${request.headers.host}`;
+    const route = `${request.method} ${url.pathname}`;
+    this.pruneExpired();
+
+    switch (route) {
+      case "GET /.well-known/openid-configuration":
+        return { status: 200, body: this.discovery(issuer) };
+      case "GET /jwks":
+        return {
+          status: 200,
+          body: {
+            keys: this.getSigningKeys().map(toPublicJwk),
+          },
+        };
+      case "GET /authorize":
+        return this.authorize(url.searchParams);
+      case "POST /authorize":
+        return this.submitAuthorize(await this.readForm(request));
+      case "POST /token":
+        return this.token(request, await this.readForm(request), issuer);
+      case "GET /userinfo":
+      case "POST /userinfo":
+        return this.userinfo(request, issuer);
+      default:
+        throw new OidcError(404, "not_found", `No route for ${route}`);
+    }
+  }
+
+  private discovery(issuer: string): Record<string, unknown> {
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: [this.getActiveKey().alg],
+      scopes_supported: SUPPORTED_SCOPES,
+      token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post", "none"],
+      code_challenge_methods_supported: ["S256", "plain"],
+      claims_supported: [
+        "sub",
+        "iss",
+        "aud",
+        "exp",
+        "iat",
+        "auth_time",
+        "nonce",
+        "sid",
+        "name",
+        "picture",
+        "email",
+        "email_verified",
+        "phone_number",
+      ],
+    };
+  }
+
+  private authorize(params: URLSearchParams): OidcResponse {
+    const request = this.parseAuthorizationRequest(params);
+    if (!("clientId" in request)) {
+      return request;
+    }
+
+    return {
+      status: 200,
+      html: renderAuthorizePage({ request, clientName: this.findClientName(request.clientId) }),
+    };
+  }
+
+  private async submitAuthorize(form: URLSearchParams): Promise<OidcResponse> {
+    const interactionId = form.get("interaction");
+    if (interactionId) {
+      return this.submitTwoFactor(interactionId, form.get("code") ?? "");
+    }
+
+    const request = this.parseAuthorizationRequest(form);
+    if (!("clientId" in request)) {
+      return request;
+    }
+
+    if (form.get("decision") !== "allow") {
+      return redirectWithError(request, "access_denied", "The user denied the request");
+    }
+
+    const result = await this.simulator.simulateLogin({
+      email: form.get("email") ?? "",
+      password: form.get("password") ?? "",
+    });
+    const clientName = this.findClientName(request.clientId);
+
+    if (result.requires2FA && result.user) {
+      const method = await this.startTwoFactor(result.user);
+      const id = randomId(16);
+      this.interactions.set(id, {
+        request,
+        userId: result.user.id,
+        method,
+        expiresAt: this.now() + INTERACTION_TTL,
+      });
+      return {
+        status: 200,
+        html: renderAuthorizePage({ request, clientName, interaction: { id, method } }),
+      };
+    }
+
+    if (!result.success || !result.user || !result.session) {
+      return {
+        status: 401,
+        html: renderAuthorizePage({ request, clientName, error: result.error ?? "Login failed" }),
+      };
+    }
+
+    return this.issueCode(request, result.user, result.session.id);
+  }
+
+  private async submitTwoFactor(interactionId: string, code: string): Promise<OidcResponse> {
+    const interaction = this.interactions.get(interactionId);
+    if (!interaction) {
+      return { status: 400, html: renderErrorPage("This sign-in attempt has expired") };
+    }
+
+    const { request, userId, method } = interaction;
+    const result = await this.simulator.simulate2FA(userId, { code, method });
+
+    if (!result.success || !result.user || !result.session) {
+      return {
+        status: 401,
+        html: renderAuthorizePage({
+          request,
+          clientName: this.findClientName(request.clientId),
+          interaction: { id: interactionId, method },
+          error: result.error ?? "Verification failed",
+        }),
+      };
+    }
+
+    this.interactions.delete(interactionId);
+    return this.issueCode(request, result.user, result.session.id);
+  }
+
+  /**
+   * Use the user's authenticator app when enrolled, otherwise send a code to the outbox
+   */
+  private async startTwoFactor(user: User): Promise<TwoFactorCode["method"]> {
+    if (user.totpEnrolledAt) {
+      return "totp";
+    }
+
+    const channel = user.phoneNumber ? "sms" : "email";
+    await this.simulator.send2FACode(user.id, channel);
+    return channel;
+  }
+
+  private issueCode(request: AuthorizationRequest, user: User, sessionId: string): OidcResponse {
+    const now = this.now();
+    const code = randomId(32);
+
+    this.codes.set(code, {
+      request,
+      userId: user.id,
+      sessionId,
+      authTime: now,
+      expiresAt: now + (this.options.authorizationCodeTtl ?? 60),
+    });
+
+    const location = new URL(request.redirectUri);
+    location.searchParams.set("code", code);
+    if (request.state !== undefined) {
+      location.searchParams.set("state", request.state);
+    }
+    return { status: 302, headers: { Location: location.toString() } };
+  }
+
+  private async token(
+    httpRequest: IncomingMessage,
+    form: URLSearchParams,
+    issuer: string
+  ): Promise<OidcResponse> {
+    const grantType = form.get("grant_type");
+    if (grantType !== "authorization_code") {
+      throw new OidcError(400, "unsupported_grant_type", `Unsupported grant_type: ${grantType}`);
+    }
+
+    const clientId = this.authenticateClient(httpRequest, form);
+    const codeValue = form.get("code") ?? "";
+    const code = this.codes.get(codeValue);
+    if (!code || code.expiresAt <= this.now()) {
+      throw new OidcError(400, "invalid_grant", "Authorization code is invalid or expired");
+    }
+    if (code.request.clientId !== clientId) {
+      throw new OidcError(400, "invalid_grant", "Authorization code was issued to another client");
+    }
+    if (form.get("redirect_uri") !== code.request.redirectUri) {
+      throw new OidcError(400, "invalid_grant", "redirect_uri does not match the authorization");
+    }
+    if (code.request.codeChallenge !== undefined) {
+      this.checkCodeVerifier(code.request, form.get("code_verifier"));
+    }
+
+    // Codes are single use
+    this.codes.delete(codeValue);
+
+    const user = this.findUser(code.userId);
+    if (!user) {
+      throw new OidcError(400, "invalid_grant", "User no longer exists");
+    }
+
+    const now = this.now();
+    const signingKey = this.getActiveKey();
+    const accessTokenTtl = this.options.accessTokenTtl ?? 3600;
+    const { scope, nonce } = code.request;
+
+    const accessToken = signJwt(
+      {
+        iss: issuer,
+        sub: user.id,
+        aud: clientId,
+        iat: now,
+        exp: now + accessTokenTtl,
+        jti: randomId(16),
+        sid: code.sessionId,
+        client_id: clientId,
+        scope,
+      },
+      signingKey
+    );
+
+    const idToken = signJwt(
+      {
+        iss: issuer,
+        sub: user.id,
+        aud: clientId,
+        iat: now,
+        exp: now + (this.options.idTokenTtl ?? 3600),
+        auth_time: code.authTime,
+        sid: code.sessionId,
+        ...(nonce !== undefined && { nonce }),
+        ...scopedClaims(user, scope),
+      },
+      signingKey
+    );
+
+    return {
+      status: 200,
+      headers: { Pragma: "no-cache" },
+      body: {
+        access_token: accessToken,
+        id_token: idToken,
+        token_type: "Bearer",
+        expires_in: accessTokenTtl,
+        scope,
+      },
+    };
+  }
+
+  private userinfo(request: IncomingMessage, issuer: string): OidcResponse {
+    const authorization = request.headers.authorization ?? "";
+    const token = /^Bearer (.+)$/i.exec(authorization)?.[1];
+    const challenge = (error: string, description: string): OidcResponse => ({
+      status: 401,
+      headers: { "WWW-Authenticate": `Bearer error="${error}"` },
+      body: { error, error_description: description },
+    });
+
+    if (!token) {
+      return challenge("invalid_request", "Missing bearer token");
+    }
+
+    const verified = verifyJwt(token, this.getSigningKeys(), {
+      issuer,
+      now: this.simulator.getClock().now(),
+    });
+    const user = verified.payload?.sub ? this.findUser(verified.payload.sub) : undefined;
+    if (!verified.valid || !user) {
+      return challenge("invalid_token", verified.error ?? "Unknown subject");
+    }
+
+    const scope = typeof verified.payload?.["scope"] === "string" ? verified.payload["scope"] : "";
+    return { status: 200, body: { sub: user.id, ...scopedClaims(user, scope) } };
+  }
+
+  /**
+   * Validate client_id and redirect_uri, then the rest of an authorization request
+   * Errors before the redirect URI is trusted are shown on a page rather than redirected.
+   */
+  private parseAuthorizationRequest(params: URLSearchParams): AuthorizationRequest | OidcResponse {
+    const clientId = params.get("client_id");
+    const redirectUri = params.get("redirect_uri");
+    if (!clientId || !redirectUri) {
+      return { status: 400, html: renderErrorPage("client_id and redirect_uri are required") };
+    }
+
+    const client = this.findClient(clientId);
+    if (this.options.clients && !client) {
+      return { status: 400, html: renderErrorPage(`Unknown client: ${clientId}`) };
+    }
+    if (client && !client.redirectUris.includes(redirectUri)) {
+      return { status: 400, html: renderErrorPage(`Unregistered redirect_uri: ${redirectUri}`) };
+    }
+    if (!URL.canParse(redirectUri)) {
+      return { status: 400, html: renderErrorPage(`Invalid redirect_uri: ${redirectUri}`) };
+    }
+
+    const state = params.get("state");
+    const request: AuthorizationRequest = {
+      clientId,
+      redirectUri,
+      scope: params.get("scope") ?? "",
+      ...(state !== null && { state }),
+    };
+
+    if (params.get("response_type") !== "code") {
+      return redirectWithError(request, "unsupported_response_type", "Only code is supported");
+    }
+
+    const scopes = request.scope.split(" ").filter(Boolean);
+    if (!scopes.includes("openid")) {
+      return redirectWithError(request, "invalid_scope", "The openid scope is required");
+    }
+    const unknown = scopes.filter((s) => !SUPPORTED_SCOPES.includes(s));
+    if (unknown.length > 0) {
+      return redirectWithError(request, "invalid_scope", `Unsupported scope: ${unknown.join(" ")}`);
+    }
+
+    const nonce = params.get("nonce");
+    const codeChallenge = params.get("code_challenge");
+    const method = params.get("code_challenge_method") ?? "plain";
+    if (codeChallenge !== null && method !== "S256" && method !== "plain") {
+      return redirectWithError(request, "invalid_request", `Unsupported method: ${method}`);
+    }
+
+    return {
+      ...request,
+      ...(nonce !== null && { nonce }),
+      ...(codeChallenge !== null && {
+        codeChallenge,
+        codeChallengeMethod: method as "S256" | "plain",
+      }),
+    };
+  }
+
+  /**
+   * Check client credentials from HTTP Basic auth or the form, returning the client id
+   */
+  private authenticateClient(request: IncomingMessage, form: URLSearchParams): string {
+    let clientId = form.get("client_id");
+    let clientSecret = form.get("client_secret");
+
+    const basic = /^Basic (.+)$/i.exec(request.headers.authorization ?? "")?.[1];
+    if (basic) {
+      [clientId, clientSecret] = decodeBasicCredentials(basic);
+    }
+
+    if (!clientId) {
+      throw new OidcError(401, "invalid_client", "Client authentication failed");
+    }
+
+    const client = this.findClient(clientId);
+    if (this.options.clients && !client) {
+      throw new OidcError(401, "invalid_client", `Unknown client: ${clientId}`);
+    }
+    if (client?.clientSecret !== undefined && client.clientSecret !== clientSecret) {
+      throw new OidcError(401, "invalid_client", "Client authentication failed");
+    }
+
+    return clientId;
+  }
+
+  private checkCodeVerifier(request: AuthorizationRequest, verifier: string | null): void {
+    if (!verifier) {
+      throw new OidcError(400, "invalid_grant", "code_verifier is required");
+    }
+
+    const expected =
+      request.codeChallengeMethod === "S256" ? createCodeChallenge(verifier) : verifier;
+    if (expected !== request.codeChallenge) {
+      throw new OidcError(400, "invalid_grant", "code_verifier does not match the code_challenge");
+    }
+  }
+
+  private async readForm(request: IncomingMessage): Promise<URLSearchParams> {
+    const text = await readRequestBody(request, MAX_BODY_BYTES);
+    if (text === undefined) {
+      throw new OidcError(413, "invalid_request", "Request body is too large");
+    }
+    return new URLSearchParams(text);
+  }
+
+  private findClient(clientId: string): OidcClient | undefined {
+    return this.options.clients?.find((client) => client.clientId === clientId);
+  }
+
+  private findClientName(clientId: string): string {
+    return this.findClient(clientId)?.name ?? clientId;
+  }
+
+  private findUser(userId: string): User | undefined {
+    return this.simulator.getUser(userId);
+  }
+
+  private getActiveKey(): SigningKey {
+    const key = this.options.signingKey ?? this.simulator.getKeyRing().getActiveKey();
+    if (key.alg === "HS256") {
+      throw new OidcError(
+        500,
+        "server_error",
+        "The active signing key is HS256; rotate to RS256 or ES256"
+      );
+    }
+    return key;
+  }
+
+  /**
+   * Forget authorization codes and 2FA interactions that can no longer be used
+   */
+  private pruneExpired(): void {
+    const now = this.now();
+    for (const [code, record] of this.codes) {
+      if (record.expiresAt <= now) {
+        this.codes.delete(code);
+      }
+    }
+    for (const [id, interaction] of this.interactions) {
+      if (interaction.expiresAt <= now) {
+        this.interactions.delete(id);
+      }
+    }
+  }
+
+  private now(): number {
+    return Math.floor(this.simulator.getClock().now().getTime() / 1000);
+  }
+}
+
+/**
+ * Standard claims released for the granted scopes
+ */
+function scopedClaims(user: User, scope: string): JwtPayload {
+  const scopes = scope.split(" ");
+  return {
+    ...(scopes.includes("profile") && {
+      name: user.name,
+      ...(user.avatar !== undefined && { picture: user.avatar }),
+    }),
+    ...(scopes.includes("email") && { email: user.email, email_verified: user.emailVerified }),
+    ...(scopes.includes("phone") &&
+      user.phoneNumber !== undefined && { phone_number: user.phoneNumber }),
+  };
+}
+
+function redirectWithError(
+  request: AuthorizationRequest,
+  error: string,
+  description: string
+): OidcResponse {
+  const location = new URL(request.redirectUri);
+  location.searchParams.set("error", error);
+  location.searchParams.set("error_description", description);
+  if (request.state !== undefined) {
+    location.searchParams.set("state", request.state);
+  }
+  return { status: 302, headers: { Location: location.toString() } };
+}
+
+/**
+ * Client id and secret from HTTP Basic auth, which form-encodes both before base64
+ */
+function decodeBasicCredentials(encoded: string): [string, string] {
+  const [id, secret] = Buffer.from(encoded, "base64").toString("utf8").split(":");
+  try {
+    return [decodeURIComponent(id ?? ""), decodeURIComponent(secret ?? "")];
+  } catch {
+    throw new OidcError(
+      401,
+      "invalid_client",
+      "Client credentials contain invalid percent-encoding"
+    );
+  }
+}
+
+function randomId(bytes: number): string {
+  return randomBytes(bytes).toString("base64url");
+}
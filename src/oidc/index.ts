@@ -0,0 +1,5 @@
+/**
+ * OpenID Connect module exports
+ */
+
+export { OidcProvider } from "./OidcProvider";
@@ -0,0 +1,128 @@
+import type { TwoFactorCode } from "../types/index";
+
+interface AuthorizePageOptions {
+  request: {
+    clientId: string;
+    redirectUri: string;
+    scope: string;
+    state?: string;
+    nonce?: string;
+    codeChallenge?: string;
+    codeChallengeMethod?: string;
+  };
+  clientName: string;
+  interaction?: { id: string; method: TwoFactorCode["method"] };
+  error?: string;
+}
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; background: #f4f5f7; display: flex;
+         justify-content: center; padding-top: 10vh; margin: 0; }
+  main { background: #fff; padding: 2rem; border-radius: 8px; width: 22rem;
+         box-shadow: 0 1px 4px rgba(0, 0, 0, 0.15); }
+  label { display: block; margin: 0.75rem 0 0.25rem; }
+  input { width: 100%; padding: 0.5rem; box-sizing: border-box; }
+  .actions { display: flex; gap: 0.5rem; margin-top: 1.25rem; }
+  button { flex: 1; padding: 0.6rem; cursor: pointer; }
+  .error { color: #dc3545; }
+  .banner { font-size: 0.8rem; color: #6c757d; }
+`;
+
+const TWO_FACTOR_HINTS: Record<TwoFactorCode["method"], string> = {
+  sms: "Enter the code sent by SMS (see the simulator outbox).",
+  email: "Enter the code sent by email (see the simulator outbox).",
+  totp: "Enter the code from your authenticator app.",
+  app: "Enter the code from your authenticator app.",
+};
+
+/**
+ * Login and consent page, or the 2FA step when an interaction is pending
+ */
+export function renderAuthorizePage({
+  request,
+  clientName,
+  interaction,
+  error,
+}: AuthorizePageOptions): string {
+  const scopes = request.scope.split(" ").filter(Boolean);
+  const fields = interaction
+    ? `<input type="hidden" name="interaction" value="${escapeHtml(interaction.id)}">
+      <p>${TWO_FACTOR_HINTS[interaction.method]}</p>
+      <label for="code">Verification code</label>
+      <input id="code" name="code" inputmode="numeric" autocomplete="one-time-code" autofocus>
+      <div class="actions"><button type="submit">Verify</button></div>`
+    : `${hiddenFields(request)}
+      <p><strong>${escapeHtml(clientName)}</strong> wants to access:
+        ${escapeHtml(scopes.join(", "))}</p>
+      <label for="email">Email</label>
+      <input id="email" name="email" type="email" autocomplete="username" autofocus>
+      <label for="password">Password</label>
+      <input id="password" name="password" type="password" autocomplete="current-password">
+      <div class="actions">
+        <button type="submit" name="decision" value="allow">Sign in and allow</button>
+        <button type="submit" name="decision" value="deny">Deny</button>
+      </div>`;
+
+  return page(
+    "Sign in",
+    `<form method="post" action="authorize">
+      ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+      ${fields}
+    </form>`
+  );
+}
+
+/**
+ * Page for requests that can't be redirected back to the client
+ */
+export function renderErrorPage(message: string): string {
+  return page("Sign-in error", `<p class="error">${escapeHtml(message)}</p>`);
+}
+
+function page(title: string, content: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLE}</style>
+</head>
+<body>
+  <main>
+    <p class="banner">AuthFlowSimulator mock identity provider</p>
+    <h1>${escapeHtml(title)}</h1>
+    ${content}
+  </main>
+</body>
+</html>`;
+}
+
+function hiddenFields(request: AuthorizePageOptions["request"]): string {
+  const params: Record<string, string | undefined> = {
+    response_type: "code",
+    client_id: request.clientId,
+    redirect_uri: request.redirectUri,
+    scope: request.scope,
+    state: request.state,
+    nonce: request.nonce,
+    code_challenge: request.codeChallenge,
+    code_challenge_method: request.codeChallengeMethod,
+  };
+
+  return Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${name}" value="${escapeHtml(value as string)}">`
+    )
+    .join("\n      ");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,154 @@
+import type {
+  Clock,
+  RecordedMethod,
+  SimulatorOptions,
+  SimulatorState,
+  SimulatorTape,
+} from "../types/index";
+import { AuthFlowSimulator } from "../simulators/AuthFlowSimulator";
+import { FakeClock, systemClock } from "../utils/clock";
+import { serializeState } from "../utils/snapshot";
+
+export const RECORDED_METHODS: RecordedMethod[] = [
+  "start",
+  "stop",
+  "simulateLogin",
+  "simulate2FA",
+  "send2FACode",
+  "getOutbox",
+  "clearOutbox",
+  "enrollTOTP",
+  "confirmTOTPEnrollment",
+  "getCurrentTOTPCode",
+  "simulatePasswordResetRequest",
+  "simulatePasswordResetConfirm",
+  "registerOAuthProvider",
+  "scriptOAuthOutcome",
+  "clearOAuthOutcomes",
+  "initiateOAuth",
+  "simulateOAuthCallback",
+  "linkOAuthIdentity",
+  "unlinkIdentity",
+  "simulateLogout",
+  "refreshSession",
+  "checkSession",
+  "unlockAccount",
+  "rotateSigningKey",
+  "createFlowSimulation",
+  "loadState",
+  "reset",
+];
+
+/**
+ * Records public calls on an AuthFlowSimulator into a replayable tape
+ *
+ * The recorded simulator is always seeded (a seed is picked when none is given) and its clock
+ * is frozen at the start of each call, so replaying the tape with `replayTape` reproduces the
+ * same IDs, codes, tokens, signing keys and timestamps. ES256 signatures are randomised by ECDSA
+ * itself, so replays compare ES256 JWTs without them. Await each call before making the next
+ * one; calls that overlap would share each other's events. `restore` calls are recorded as
+ * `loadState` with the serialised snapshot, so the tape stays plain JSON.
+ */
+export class SimulatorRecorder {
+  private simulator: AuthFlowSimulator;
+  private recorded: AuthFlowSimulator;
+  private baseClock: Clock;
+  private clock: FakeClock;
+  private tape: SimulatorTape;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.baseClock = options.clock ?? systemClock;
+    this.clock = new FakeClock(this.baseClock.now());
+
+    const seed = options.seed ?? Math.floor(Math.random() * 0x100000000);
+    this.simulator = new AuthFlowSimulator({ ...options, clock: this.clock, seed });
+    this.recorded = this.createProxy();
+
+    this.tape = {
+      version: 1,
+      seed,
+      startTime: this.clock.now().toISOString(),
+      options: toJSONValue({
+        ...(options.config && { config: options.config }),
+        ...(options.mockUsers && { mockUsers: options.mockUsers }),
+        ...(options.passwordMode && { passwordMode: options.passwordMode }),
+        ...(options.twoFactorMode && { twoFactorMode: options.twoFactorMode }),
+        ...(options.oauthProviders && { oauthProviders: options.oauthProviders }),
+      }) as SimulatorTape["options"],
+      entries: [],
+    };
+  }
+
+  /**
+   * Get the simulator to use; calls to recorded methods on it are added to the tape
+   */
+  getSimulator(): AuthFlowSimulator {
+    return this.recorded;
+  }
+
+  /**
+   * Get a copy of the tape recorded so far
+   */
+  getTape(): SimulatorTape {
+    return toJSONValue(this.tape) as SimulatorTape;
+  }
+
+  /**
+   * Serialise the tape as JSON, e.g. to save it as a regression fixture
+   */
+  serialize(): string {
+    return JSON.stringify(this.tape, null, 2);
+  }
+
+  private createProxy(): AuthFlowSimulator {
+    return new Proxy(this.simulator, {
+      get: (target, property, receiver) => {
+        const value: unknown = Reflect.get(target, property, receiver);
+        if (typeof value !== "function") {
+          return value;
+        }
+
+        if (property === "restore") {
+          return (snapshot: SimulatorState) =>
+            this.record("loadState", target.loadState as (...args: unknown[]) => unknown, [
+              serializeState(snapshot),
+            ]);
+        }
+
+        if (!RECORDED_METHODS.includes(property as RecordedMethod)) {
+          return value.bind(target);
+        }
+
+        return (...args: unknown[]) =>
+          this.record(property as RecordedMethod, value as (...args: unknown[]) => unknown, args);
+      },
+    });
+  }
+
+  private record(method: RecordedMethod, fn: (...args: unknown[]) => unknown, args: unknown[]) {
+    this.clock.set(this.baseClock.now());
+    const at = this.clock.now().toISOString();
+    const eventCount = this.simulator.getEvents().length;
+
+    const finish = (result: unknown) => {
+      this.tape.entries.push({
+        method,
+        args: toJSONValue(args) as unknown[],
+        at,
+        result: toJSONValue(result),
+        events: toJSONValue(this.simulator.getEvents().slice(eventCount)) as unknown[],
+      });
+      return result;
+    };
+
+    const result = fn.apply(this.simulator, args);
+    return result instanceof Promise ? result.then(finish) : finish(result);
+  }
+}
+
+/**
+ * Convert a value to the form it takes after a JSON round trip (Dates become ISO strings)
+ */
+export function toJSONValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
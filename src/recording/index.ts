@@ -0,0 +1,6 @@
+/**
+ * Recording module exports
+ */
+
+export { SimulatorRecorder } from "./SimulatorRecorder";
+export { replayTape, parseTape, diffValues } from "./replayTape";
@@ -0,0 +1,143 @@
+import type {
+  MockUser,
+  ReplayEntryReport,
+  ReplayReport,
+  SimulatorTape,
+  TapeEntry,
+} from "../types/index";
+import { AuthFlowSimulator } from "../simulators/AuthFlowSimulator";
+import { FakeClock } from "../utils/clock";
+import { decodeJwt } from "../utils/jwt";
+import { RECORDED_METHODS, toJSONValue } from "./SimulatorRecorder";
+
+const MAX_DIFFERENCES = 20;
+
+/**
+ * Parse a serialised tape, checking its version and shape
+ */
+export function parseTape(text: string): SimulatorTape {
+  const tape = JSON.parse(text) as Partial<SimulatorTape>;
+
+  if (tape.version !== 1) {
+    throw new Error(`Unsupported tape version: ${String(tape.version)}`);
+  }
+  if (typeof tape.startTime !== "string" || !Array.isArray(tape.entries)) {
+    throw new Error("Invalid tape: startTime and entries are required");
+  }
+
+  tape.entries.forEach((entry: TapeEntry, index) => {
+    if (!RECORDED_METHODS.includes(entry.method)) {
+      throw new Error(`Invalid tape: entries[${index}] has unknown method "${entry.method}"`);
+    }
+  });
+
+  return tape as SimulatorTape;
+}
+
+/**
+ * Replay a tape against a fresh simulator and diff each call's result and events
+ * with the recording
+ */
+export async function replayTape(tape: SimulatorTape | string): Promise<ReplayReport> {
+  const recording = typeof tape === "string" ? parseTape(tape) : tape;
+  const clock = new FakeClock(new Date(recording.startTime));
+
+  const simulator = new AuthFlowSimulator({
+    ...(recording.options.config && { config: recording.options.config }),
+    ...(recording.options.passwordMode && { passwordMode: recording.options.passwordMode }),
+    ...(recording.options.twoFactorMode && { twoFactorMode: recording.options.twoFactorMode }),
+    ...(recording.options.mockUsers && {
+      mockUsers: recording.options.mockUsers.map(reviveMockUser),
+    }),
+    ...(recording.options.oauthProviders && {
+      oauthProviders: recording.options.oauthProviders,
+    }),
+    seed: recording.seed,
+    clock,
+    enableLogging: false,
+    delayMs: 0,
+  });
+
+  const entries: ReplayEntryReport[] = [];
+
+  for (const [index, entry] of recording.entries.entries()) {
+    clock.set(new Date(entry.at));
+    const eventCount = simulator.getEvents().length;
+
+    const method = simulator[entry.method] as (...args: unknown[]) => unknown;
+    const result: unknown = await method.apply(simulator, entry.args);
+
+    const differences = [
+      ...diffValues(entry.result, toJSONValue(result), "result"),
+      ...diffValues(entry.events, toJSONValue(simulator.getEvents().slice(eventCount)), "events"),
+    ];
+
+    entries.push({
+      index,
+      method: entry.method,
+      passed: differences.length === 0,
+      differences: differences.slice(0, MAX_DIFFERENCES),
+    });
+  }
+
+  return { passed: entries.every((entry) => entry.passed), entries };
+}
+
+/**
+ * List the paths at which two JSON values differ
+ */
+export function diffValues(expected: unknown, actual: unknown, path: string = ""): string[] {
+  if (Object.is(expected, actual)) {
+    return [];
+  }
+
+  // ECDSA signs with a fresh nonce each time, so only the signed content of ES256 tokens can match
+  if (
+    isEcdsaJwt(expected) &&
+    isEcdsaJwt(actual) &&
+    withoutSignature(expected) === withoutSignature(actual)
+  ) {
+    return [];
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const differences: string[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      differences.push(...diffValues(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return differences;
+  }
+
+  if (isRecord(expected) && isRecord(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...keys].flatMap((key) =>
+      diffValues(expected[key], actual[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  return [`${path}: expected ${describe(expected)}, got ${describe(actual)}`];
+}
+
+function reviveMockUser(user: MockUser): MockUser {
+  return {
+    ...user,
+    createdAt: new Date(user.createdAt),
+    ...(user.totpEnrolledAt && { totpEnrolledAt: new Date(user.totpEnrolledAt) }),
+  };
+}
+
+function isEcdsaJwt(value: unknown): value is string {
+  return typeof value === "string" && decodeJwt(value)?.header.alg === "ES256";
+}
+
+function withoutSignature(token: string): string {
+  return token.slice(0, token.lastIndexOf("."));
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? "nothing" : JSON.stringify(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,328 @@
+import type {
+  AuthResult,
+  AuthSession,
+  MockUser,
+  OAuthAuthorizationRequest,
+  OAuthCallback,
+  Scenario,
+  ScenarioAction,
+  ScenarioActionReport,
+  ScenarioExpectation,
+  ScenarioReport,
+  TwoFactorCode,
+  User,
+} from "../types/index";
+import { AuthFlowSimulator } from "../simulators/AuthFlowSimulator";
+import { FakeClock } from "../utils/clock";
+import { loadScenarioFile } from "./loadScenario";
+
+/**
+ * Runs a declarative Scenario against a fresh simulator
+ *
+ * The simulator is driven by a FakeClock starting at `startTime` (or now) and seeded with `seed`
+ * when given; scenarios that set both produce the same report every run. Actions share the user,
+ * session and reset token produced by earlier actions; each is checked against its `expect`
+ * block. OAuth callbacks default to the state and code verifier of the latest oauth-initiate
+ * action.
+ */
+export class ScenarioRunner {
+  private simulator: AuthFlowSimulator;
+  private clock: FakeClock;
+  private user?: User;
+  private session?: AuthSession;
+  private resetToken?: string;
+  private oauth?: OAuthAuthorizationRequest;
+
+  constructor(private scenario: Scenario) {
+    this.clock = new FakeClock(
+      scenario.startTime !== undefined ? new Date(scenario.startTime) : Date.now()
+    );
+    this.simulator = new AuthFlowSimulator({
+      enableLogging: false,
+      delayMs: 0,
+      clock: this.clock,
+      ...(scenario.config && { config: scenario.config }),
+      ...(scenario.seed !== undefined && { seed: scenario.seed }),
+      ...(scenario.users && {
+        mockUsers: scenario.users.map((user, i) => this.toMockUser(user, i)),
+      }),
+    });
+  }
+
+  /**
+   * Run every action in order and report which expectations held
+   */
+  async run(): Promise<ScenarioReport> {
+    const actions: ScenarioActionReport[] = [];
+
+    for (const [index, action] of this.scenario.actions.entries()) {
+      actions.push(await this.runAction(action, index));
+    }
+
+    return {
+      name: this.scenario.name,
+      passed: actions.every((action) => action.passed),
+      actions,
+    };
+  }
+
+  /**
+   * Get the simulator the scenario runs against, e.g. to inspect its state afterwards
+   */
+  getSimulator(): AuthFlowSimulator {
+    return this.simulator;
+  }
+
+  private async runAction(action: ScenarioAction, index: number): Promise<ScenarioActionReport> {
+    const report: ScenarioActionReport = {
+      index,
+      type: action.type,
+      ...(action.name !== undefined && { name: action.name }),
+      passed: true,
+      failures: [],
+    };
+
+    const eventCount = this.simulator.getEvents().length;
+    const result = await this.perform(action);
+
+    if (typeof result === "string") {
+      report.failures.push(result);
+    } else if (result) {
+      report.result = result;
+      report.failures.push(...checkExpectation(result, action.expect ?? { success: true }));
+    }
+
+    const expectedEvents = action.expect?.events ?? [];
+    const emitted = this.simulator
+      .getEvents()
+      .slice(eventCount)
+      .map((event) => event.type);
+    for (const type of expectedEvents) {
+      if (!emitted.includes(type)) {
+        report.failures.push(`expected a ${type} event`);
+      }
+    }
+
+    report.passed = report.failures.length === 0;
+    return report;
+  }
+
+  /**
+   * Perform the simulator call for an action
+   * Returns an error message when the scenario is missing what the action needs
+   */
+  private async perform(action: ScenarioAction): Promise<AuthResult | string | undefined> {
+    switch (action.type) {
+      case "login": {
+        const result = await this.simulator.simulateLogin(action.credentials);
+        this.track(result);
+        return result;
+      }
+
+      case "send-2fa-code": {
+        const user = this.resolveUser(action.email);
+        if (!user) {
+          return "No user to send a 2FA code to";
+        }
+        return this.simulator.send2FACode(user.id, action.channel);
+      }
+
+      case "2fa": {
+        const user = this.resolveUser(action.email);
+        if (!user) {
+          return "No user awaiting 2FA";
+        }
+        const code = action.code ?? this.resolveTwoFactorCode(user);
+        if (!code) {
+          return "No 2FA code available";
+        }
+        const result = await this.simulator.simulate2FA(user.id, code);
+        this.track(result);
+        return result;
+      }
+
+      case "password-reset-request": {
+        const result = await this.simulator.simulatePasswordResetRequest(action.request);
+        const event = this.simulator
+          .getEvents()
+          .filter(
+            (e) =>
+              e.type === "password-reset-requested" && e.data?.["email"] === action.request.email
+          )
+          .pop();
+        const token = event?.data?.["resetToken"];
+        if (typeof token === "string") {
+          this.resetToken = token;
+        }
+        return result;
+      }
+
+      case "password-reset-confirm": {
+        const token = action.token ?? this.resetToken;
+        if (!token) {
+          return "No reset token issued";
+        }
+        return this.simulator.simulatePasswordResetConfirm({
+          token,
+          newPassword: action.newPassword,
+        });
+      }
+
+      case "oauth-initiate": {
+        const result = await this.simulator.initiateOAuth(action.provider, {
+          ...(action.scopes && { scopes: action.scopes }),
+        });
+        if (result.authorization) {
+          this.oauth = result.authorization;
+        }
+        return result;
+      }
+
+      case "oauth-callback": {
+        const result = await this.simulator.simulateOAuthCallback(
+          this.resolveCallback(action.callback)
+        );
+        this.track(result);
+        return result;
+      }
+
+      case "link-identity": {
+        const user = this.resolveUser(action.email);
+        if (!user) {
+          return "No user to link an identity to";
+        }
+        return this.simulator.linkOAuthIdentity(user.id, this.resolveCallback(action.callback));
+      }
+
+      case "script-oauth-outcome":
+        this.simulator.scriptOAuthOutcome(action.provider, action.outcome, action.times);
+        return undefined;
+
+      case "unlink-identity": {
+        const user = this.resolveUser(action.email);
+        if (!user) {
+          return "No user to unlink an identity from";
+        }
+        return this.simulator.unlinkIdentity(user.id, action.provider, action.subject);
+      }
+
+      case "check-session": {
+        if (!this.session) {
+          return "No session to check";
+        }
+        return this.simulator.checkSession(this.session.id);
+      }
+
+      case "logout": {
+        if (!this.session) {
+          return "No session to log out";
+        }
+        const result = await this.simulator.simulateLogout(this.session.id);
+        if (result.success) {
+          delete this.session;
+        }
+        return result;
+      }
+
+      case "refresh-session": {
+        const refreshToken = action.refreshToken ?? this.session?.refreshToken;
+        if (!refreshToken) {
+          return "No refresh token to exchange";
+        }
+        const result = await this.simulator.refreshSession(refreshToken);
+        this.track(result);
+        return result;
+      }
+
+      case "advance-time": {
+        const ms = ((action.minutes ?? 0) * 60 + (action.seconds ?? 0)) * 1000;
+        this.clock.advance(ms);
+        return undefined;
+      }
+    }
+  }
+
+  private track(result: AuthResult): void {
+    if (result.user) {
+      this.user = result.user;
+    }
+    if (result.session) {
+      this.session = result.session;
+    }
+  }
+
+  private resolveCallback(
+    callback: Omit<OAuthCallback, "state"> & { state?: string }
+  ): OAuthCallback {
+    return {
+      state: this.oauth?.state ?? "",
+      ...(this.oauth?.codeVerifier !== undefined && { codeVerifier: this.oauth.codeVerifier }),
+      ...callback,
+    };
+  }
+
+  private resolveUser(email: string | undefined): User | undefined {
+    if (email === undefined) {
+      return this.user;
+    }
+    return this.simulator.getState().users.find((user) => user.email === email);
+  }
+
+  private resolveTwoFactorCode(user: User): TwoFactorCode | undefined {
+    const message = this.simulator.getOutbox({ userId: user.id }).pop();
+    if (message && !message.usedAt) {
+      return { code: message.code, method: message.channel };
+    }
+
+    const totpCode = this.simulator.getCurrentTOTPCode(user.id);
+    return totpCode ? { code: totpCode, method: "totp" } : undefined;
+  }
+
+  private toMockUser(user: NonNullable<Scenario["users"]>[number], index: number): MockUser {
+    return {
+      id: user.id ?? `user-${index + 1}`,
+      email: user.email,
+      name: user.name ?? user.email,
+      emailVerified: user.emailVerified ?? true,
+      twoFactorEnabled: user.twoFactorEnabled ?? false,
+      ...(user.phoneNumber !== undefined && { phoneNumber: user.phoneNumber }),
+      ...(user.password !== undefined && { password: user.password }),
+      createdAt: this.clock.now(),
+    };
+  }
+}
+
+/**
+ * Load a scenario file and run it
+ */
+export async function runScenarioFile(path: string): Promise<ScenarioReport> {
+  const scenario = await loadScenarioFile(path);
+  return new ScenarioRunner(scenario).run();
+}
+
+function checkExpectation(result: AuthResult, expect: ScenarioExpectation): string[] {
+  const failures: string[] = [];
+
+  if (expect.success !== undefined && result.success !== expect.success) {
+    failures.push(
+      `expected success to be ${expect.success} but was ${result.success}` +
+        (result.error ? ` (${result.error})` : "")
+    );
+  }
+  if (expect.errorCode !== undefined && result.errorCode !== expect.errorCode) {
+    failures.push(
+      `expected errorCode ${expect.errorCode} but was ${result.errorCode ?? "undefined"}`
+    );
+  }
+  if (expect.requires2FA !== undefined && (result.requires2FA ?? false) !== expect.requires2FA) {
+    failures.push(`expected requires2FA to be ${expect.requires2FA}`);
+  }
+  if (
+    expect.accountLocked !== undefined &&
+    (result.accountLocked ?? false) !== expect.accountLocked
+  ) {
+    failures.push(`expected accountLocked to be ${expect.accountLocked}`);
+  }
+
+  return failures;
+}
@@ -0,0 +1,8 @@
+/**
+ * Scenarios module exports
+ */
+
+export { ScenarioRunner, runScenarioFile } from "./ScenarioRunner";
+export { parseScenario, validateScenario, loadScenario, loadScenarioFile } from "./loadScenario";
+export type { ScenarioFormat } from "./loadScenario";
+export { parseYaml } from "./yaml";
@@ -0,0 +1,304 @@
+import type {
+  AuthErrorCode,
+  AuthEventType,
+  AuthFlowConfig,
+  OAuthProviderError,
+  Scenario,
+  ScenarioAction,
+  ScenarioValidationResult,
+} from "../types/index";
+import { OAUTH_PROVIDER_ERRORS } from "../oauth/outcomes";
+import { AUTH_ERROR_CODES, AUTH_EVENT_TYPES } from "../simulators/codes";
+import { DEFAULT_CONFIG } from "../simulators/defaults";
+import { parseYaml } from "./yaml";
+
+export type ScenarioFormat = "json" | "yaml";
+
+const ACTION_FIELDS: Record<ScenarioAction["type"], Record<string, FieldType>> = {
+  login: { credentials: "object" },
+  "send-2fa-code": { channel: "channel", email: "string?" },
+  "2fa": { code: "object?", email: "string?" },
+  "password-reset-request": { request: "object" },
+  "password-reset-confirm": { newPassword: "string", token: "string?" },
+  "oauth-initiate": { provider: "string", scopes: "string[]?" },
+  "oauth-callback": { callback: "object" },
+  "link-identity": { callback: "object", email: "string?" },
+  "unlink-identity": { provider: "string", subject: "string?", email: "string?" },
+  "script-oauth-outcome": { provider: "string", outcome: "object", times: "number?" },
+  "check-session": {},
+  logout: {},
+  "refresh-session": { refreshToken: "string?" },
+  "advance-time": { minutes: "number?", seconds: "number?" },
+};
+
+const NESTED_FIELDS: Record<string, Record<string, FieldType>> = {
+  credentials: {
+    email: "string",
+    password: "string",
+    rememberMe: "boolean?",
+    ipAddress: "string?",
+  },
+  code: { code: "string", method: "method" },
+  request: { email: "string", redirectUrl: "string?" },
+  callback: {
+    code: "string",
+    state: "string?",
+    provider: "string",
+    codeVerifier: "string?",
+    accountId: "string?",
+    outcome: "object?",
+  },
+  outcome: { error: "oauth-error?", errorDescription: "string?", grantedScopes: "string[]?" },
+};
+
+const USER_FIELDS: Record<string, FieldType> = {
+  email: "string",
+  name: "string?",
+  id: "string?",
+  password: "string?",
+  phoneNumber: "string?",
+  emailVerified: "boolean?",
+  twoFactorEnabled: "boolean?",
+};
+
+const EXPECT_FIELDS: Record<string, FieldType> = {
+  success: "boolean?",
+  errorCode: "error-code?",
+  requires2FA: "boolean?",
+  accountLocked: "boolean?",
+  events: "event-type[]?",
+};
+
+// Config options whose strings are one of a fixed set
+const CONFIG_CHOICES: Partial<Record<keyof AuthFlowConfig, string[]>> = {
+  sessionExpiryMode: ["absolute", "sliding"],
+  oauthLinkPolicy: ["auto-link", "require-confirmation", "reject"],
+  tokenFormat: ["opaque", "jwt"],
+  jwtAlgorithm: ["HS256", "RS256", "ES256"],
+};
+
+type FieldType =
+  | "string"
+  | "string?"
+  | "number?"
+  | "boolean?"
+  | "object"
+  | "object?"
+  | "string[]?"
+  | "channel"
+  | "method"
+  | "oauth-error?"
+  | "error-code?"
+  | "event-type[]?";
+
+/**
+ * Parse scenario text without validating it
+ * The format is detected from the text when not given: JSON documents start with "{"
+ */
+export function parseScenario(text: string, format?: ScenarioFormat): unknown {
+  const detected = format ?? (text.trimStart().startsWith("{") ? "json" : "yaml");
+  return detected === "json" ? JSON.parse(text) : parseYaml(text);
+}
+
+/**
+ * Check that parsed data has the shape of a Scenario
+ * Errors name the offending field, e.g. `actions[2].credentials.email must be a string`
+ */
+export function validateScenario(data: unknown): ScenarioValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ["scenario must be an object"] };
+  }
+
+  checkFields(
+    data,
+    { name: "string", description: "string?", startTime: "string?", config: "object?" },
+    "",
+    errors
+  );
+
+  if (isRecord(data["config"])) {
+    validateConfig(data["config"], errors);
+  }
+
+  if (data["seed"] !== undefined && !["number", "string"].includes(typeof data["seed"])) {
+    errors.push("seed must be a number or a string");
+  }
+
+  if (typeof data["startTime"] === "string" && Number.isNaN(Date.parse(data["startTime"]))) {
+    errors.push("startTime must be an ISO 8601 date");
+  }
+
+  if (data["users"] !== undefined) {
+    if (!Array.isArray(data["users"])) {
+      errors.push("users must be a list");
+    } else {
+      data["users"].forEach((user: unknown, index) => {
+        const path = `users[${index}]`;
+        if (isRecord(user)) {
+          checkFields(user, USER_FIELDS, path, errors);
+        } else {
+          errors.push(`${path} must be an object`);
+        }
+      });
+    }
+  }
+
+  if (!Array.isArray(data["actions"])) {
+    errors.push("actions must be a list");
+  } else {
+    data["actions"].forEach((action: unknown, index) =>
+      validateAction(action, `actions[${index}]`, errors)
+    );
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Parse and validate a scenario, throwing an error that lists every problem found
+ */
+export function loadScenario(text: string, format?: ScenarioFormat): Scenario {
+  let data: unknown;
+  try {
+    data = parseScenario(text, format);
+  } catch (error) {
+    throw new Error(`Invalid scenario: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const validation = validateScenario(data);
+  if (!validation.valid) {
+    throw new Error(`Invalid scenario:\n  ${validation.errors.join("\n  ")}`);
+  }
+
+  return data as Scenario;
+}
+
+/**
+ * Read and load a scenario file, detecting the format from its extension
+ * node:fs is imported on first use so the package root stays free of it.
+ */
+export async function loadScenarioFile(path: string): Promise<Scenario> {
+  const { readFile } = await import("node:fs/promises");
+  const text = await readFile(path, "utf8");
+  const format = /\.ya?ml$/i.test(path) ? "yaml" : /\.json$/i.test(path) ? "json" : undefined;
+  return loadScenario(text, format);
+}
+
+function validateAction(action: unknown, path: string, errors: string[]): void {
+  if (!isRecord(action)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  const type = action["type"];
+  if (typeof type !== "string" || !(type in ACTION_FIELDS)) {
+    errors.push(
+      `${path}.type must be one of ${Object.keys(ACTION_FIELDS).join(", ")}` +
+        (typeof type === "string" ? ` (got "${type}")` : "")
+    );
+    return;
+  }
+
+  checkFields(action, { name: "string?", expect: "object?" }, path, errors);
+  checkFields(action, ACTION_FIELDS[type as ScenarioAction["type"]], path, errors);
+
+  if (isRecord(action["expect"])) {
+    checkFields(action["expect"], EXPECT_FIELDS, `${path}.expect`, errors);
+  }
+}
+
+function validateConfig(config: Record<string, unknown>, errors: string[]): void {
+  for (const [option, value] of Object.entries(config)) {
+    const name = `config.${option}`;
+    if (!(option in DEFAULT_CONFIG)) {
+      errors.push(`${name} is not a config option`);
+      continue;
+    }
+
+    const expected = typeof DEFAULT_CONFIG[option as keyof AuthFlowConfig];
+    const choices = CONFIG_CHOICES[option as keyof AuthFlowConfig];
+    if (typeof value !== expected) {
+      errors.push(`${name} must be a ${expected}`);
+    } else if (choices && !choices.includes(value as string)) {
+      errors.push(`${name} must be one of ${choices.join(", ")}`);
+    }
+  }
+}
+
+function checkFields(
+  record: Record<string, unknown>,
+  fields: Record<string, FieldType>,
+  path: string,
+  errors: string[]
+): void {
+  for (const [field, type] of Object.entries(fields)) {
+    const value = record[field];
+    const name = path ? `${path}.${field}` : field;
+    const optional = type.endsWith("?");
+
+    if (value === undefined) {
+      if (!optional) {
+        errors.push(`${name} is required`);
+      }
+      continue;
+    }
+
+    const problem = describeMismatch(value, type.replace("?", ""));
+    if (problem) {
+      errors.push(`${name} ${problem}`);
+      continue;
+    }
+
+    // Objects with a known shape, e.g. credentials or a callback's outcome
+    const nested = NESTED_FIELDS[field];
+    if (nested && isRecord(value)) {
+      checkFields(value, nested, name, errors);
+    }
+  }
+}
+
+function describeMismatch(value: unknown, type: string): string | undefined {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value === type ? undefined : `must be a ${type}`;
+    case "object":
+      return isRecord(value) ? undefined : "must be an object";
+    case "string[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string")
+        ? undefined
+        : "must be a list of strings";
+    case "channel":
+      return value === "sms" || value === "email" ? undefined : "must be sms or email";
+    case "method":
+      return ["sms", "email", "totp", "app"].includes(value as string)
+        ? undefined
+        : "must be sms, email, totp or app";
+    case "oauth-error":
+      return OAUTH_PROVIDER_ERRORS.includes(value as OAuthProviderError)
+        ? undefined
+        : `must be one of ${OAUTH_PROVIDER_ERRORS.join(", ")}`;
+    case "error-code":
+      return AUTH_ERROR_CODES.includes(value as AuthErrorCode)
+        ? undefined
+        : `must be an AuthErrorCode (got ${JSON.stringify(value)})`;
+    case "event-type[]": {
+      if (!Array.isArray(value)) {
+        return "must be a list of event types";
+      }
+      const unknown = value.filter((item) => !AUTH_EVENT_TYPES.includes(item as AuthEventType));
+      return unknown.length === 0
+        ? undefined
+        : `has unknown event types: ${unknown.map((item) => JSON.stringify(item)).join(", ")}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
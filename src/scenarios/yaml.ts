@@ -0,0 +1,293 @@
+/**
+ * Parser for the YAML subset used by scenario files
+ *
+ * Supports block mappings and sequences, `- key: value` items, inline `[a, b]` and `{ a: 1 }`
+ * collections, quoted and plain scalars, numbers, booleans, null and `#` comments.
+ * Anchors, tags, multi-line strings and multiple documents are not supported.
+ */
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNumber: number;
+}
+
+/**
+ * Parse a YAML-subset document into plain JavaScript values
+ */
+export function parseYaml(source: string): unknown {
+  const lines: YamlLine[] = [];
+
+  source.split(/\r?\n/).forEach((raw, index) => {
+    if (/^\s*\t/.test(raw)) {
+      throw new Error(`YAML line ${index + 1}: tabs are not allowed for indentation`);
+    }
+
+    const text = stripComment(raw).trim();
+    if (text !== "" && text !== "---") {
+      lines.push({ indent: raw.length - raw.trimStart().length, text, lineNumber: index + 1 });
+    }
+  });
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const parser = new YamlParser(lines);
+  return parser.parseDocument();
+}
+
+class YamlParser {
+  private position = 0;
+
+  constructor(private lines: YamlLine[]) {}
+
+  parseDocument(): unknown {
+    const value = this.parseBlock(this.lines[0]!.indent);
+    const extra = this.lines[this.position];
+    if (extra) {
+      throw new Error(`YAML line ${extra.lineNumber}: unexpected indentation`);
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.position]!;
+    return isSequenceItem(line.text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    for (
+      let line = this.current(indent);
+      line && isSequenceItem(line.text);
+      line = this.current(indent)
+    ) {
+      const rest = line.text.slice(1).trim();
+
+      if (rest === "") {
+        this.position += 1;
+        items.push(this.parseNested(indent, line));
+      } else if (findMappingColon(rest) !== -1) {
+        // "- key: value" starts a mapping whose keys line up with "key"
+        const column = indent + line.text.indexOf(rest);
+        this.lines[this.position] = { indent: column, text: rest, lineNumber: line.lineNumber };
+        items.push(this.parseMapping(column));
+      } else {
+        this.position += 1;
+        items.push(parseScalar(rest, line.lineNumber));
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    for (
+      let line = this.current(indent);
+      line && !isSequenceItem(line.text);
+      line = this.current(indent)
+    ) {
+      const colon = findMappingColon(line.text);
+      if (colon === -1) {
+        throw new Error(`YAML line ${line.lineNumber}: expected "key: value"`);
+      }
+
+      const key = unquote(line.text.slice(0, colon).trim(), line.lineNumber);
+      const rest = line.text.slice(colon + 1).trim();
+      this.position += 1;
+
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new Error(`YAML line ${line.lineNumber}: duplicate key "${key}"`);
+      }
+
+      if (rest !== "") {
+        mapping[key] = parseScalar(rest, line.lineNumber);
+        continue;
+      }
+
+      // Block sequences may sit at the same indentation as their key
+      const next = this.lines[this.position];
+      mapping[key] =
+        next && next.indent === indent && isSequenceItem(next.text)
+          ? this.parseSequence(indent)
+          : this.parseNested(indent, line);
+    }
+
+    return mapping;
+  }
+
+  private parseNested(parentIndent: number, parent: YamlLine): unknown {
+    const next = this.lines[this.position];
+    if (!next || next.indent <= parentIndent) {
+      return null;
+    }
+
+    const value = this.parseBlock(next.indent);
+    const after = this.lines[this.position];
+    if (after && after.indent > parentIndent && after.indent !== next.indent) {
+      throw new Error(
+        `YAML line ${after.lineNumber}: inconsistent indentation under line ${parent.lineNumber}`
+      );
+    }
+    return value;
+  }
+
+  private current(indent: number): YamlLine | undefined {
+    const line = this.lines[this.position];
+    return line && line.indent === indent ? line : undefined;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/**
+ * Find the colon separating a key from its value, ignoring colons inside quotes
+ */
+function findMappingColon(text: string): number {
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      if (i === 0) {
+        quote = char;
+      }
+    } else if (char === "[" || char === "{") {
+      return -1;
+    } else if (char === ":" && (i === text.length - 1 || text[i + 1] === " ")) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function stripComment(line: string): string {
+  let quote: string | undefined;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        i += 1;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]!))) {
+      return line.slice(0, i);
+    }
+  }
+
+  return line;
+}
+
+function unquote(text: string, lineNumber: number): string {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const value = parseScalar(text, lineNumber);
+    return String(value);
+  }
+  return text;
+}
+
+function parseScalar(text: string, lineNumber: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`YAML line ${lineNumber}: invalid double-quoted string`);
+    }
+  }
+
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) {
+      throw new Error(`YAML line ${lineNumber}: unterminated single-quoted string`);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (text.startsWith("[")) {
+    if (!text.endsWith("]")) {
+      throw new Error(`YAML line ${lineNumber}: unterminated inline sequence`);
+    }
+    return splitInline(text.slice(1, -1)).map((item) => parseScalar(item, lineNumber));
+  }
+
+  if (text.startsWith("{")) {
+    if (!text.endsWith("}")) {
+      throw new Error(`YAML line ${lineNumber}: unterminated inline mapping`);
+    }
+    const mapping: Record<string, unknown> = {};
+    for (const entry of splitInline(text.slice(1, -1))) {
+      const colon = findMappingColon(entry);
+      if (colon === -1) {
+        throw new Error(`YAML line ${lineNumber}: expected "key: value" in inline mapping`);
+      }
+      mapping[unquote(entry.slice(0, colon).trim(), lineNumber)] = parseScalar(
+        entry.slice(colon + 1).trim(),
+        lineNumber
+      );
+    }
+    return mapping;
+  }
+
+  if (text === "true" || text === "false") {
+    return text === "true";
+  }
+
+  if (text === "null" || text === "~") {
+    return null;
+  }
+
+  if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+
+  return text;
+}
+
+/**
+ * Split the inside of an inline collection on top-level commas
+ */
+function splitInline(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      depth += 1;
+    } else if (char === "]" || char === "}") {
+      depth -= 1;
+    } else if (char === "," && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  const last = text.slice(start).trim();
+  if (last !== "" || parts.length > 0) {
+    parts.push(last);
+  }
+
+  return parts;
+}
@@ -0,0 +1,520 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { URL, URLSearchParams } from "node:url";
+import type {
+  ApiErrorBody,
+  ApiErrorCode,
+  AuthErrorCode,
+  AuthEventType,
+  AuthResult,
+  AuthServerOptions,
+  OAuthCallback,
+  OAuthProviderError,
+  OTPDeliveryChannel,
+  TwoFactorCode,
+  User,
+} from "../types/index";
+import type { AuthFlowSimulator } from "../simulators/AuthFlowSimulator";
+import { OAUTH_PROVIDER_ERRORS } from "../oauth/outcomes";
+import { readRequestBody } from "./http";
+
+type RequestBody = Record<string, unknown>;
+
+interface Route {
+  method: "GET" | "POST";
+  pattern: RegExp;
+  handle: (context: RouteContext) => Promise<RouteResponse>;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: RequestBody;
+}
+
+interface RouteResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Thrown by route handlers to send an ApiErrorBody
+ */
+class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+const ERROR_STATUS: Record<AuthErrorCode, number> = {
+  "invalid-credentials": 401,
+  "account-locked": 423,
+  "two-factor-required": 401,
+  "invalid-2fa-code": 401,
+  "2fa-code-reused": 401,
+  "2fa-not-enrolled": 400,
+  "2fa-code-expired": 401,
+  "2fa-resend-throttled": 429,
+  "2fa-no-recipient": 400,
+  "user-not-found": 404,
+  "session-not-found": 401,
+  "session-expired": 401,
+  "invalid-reset-token": 400,
+  "reset-token-expired": 410,
+  "reset-token-used": 410,
+  "reset-token-superseded": 410,
+  "weak-password": 422,
+  "invalid-refresh-token": 401,
+  "refresh-token-expired": 401,
+  "refresh-token-revoked": 401,
+  "refresh-token-reused": 401,
+  "oauth-state-missing": 400,
+  "oauth-state-mismatch": 403,
+  "oauth-state-expired": 410,
+  "oauth-state-reused": 409,
+  "invalid-code-verifier": 400,
+  "oauth-account-not-found": 404,
+  "identity-link-required": 409,
+  "oauth-account-exists": 409,
+  "identity-already-linked": 409,
+  "identity-not-found": 404,
+  "last-login-method": 409,
+  "oauth-access-denied": 403,
+  "oauth-invalid-scope": 400,
+  "oauth-server-error": 502,
+  "oauth-temporarily-unavailable": 503,
+  "oauth-code-expired": 400,
+  "feature-disabled": 403,
+};
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * REST API around an AuthFlowSimulator using node:http
+ *
+ * Simulator calls respond with their AuthResult as JSON, with a status code derived from
+ * `errorCode`. Every other error (bad JSON, missing fields, unknown routes) uses the same
+ * `{ success: false, error, errorCode }` shape. Password hashes and TOTP secrets are never sent.
+ */
+export class AuthServer {
+  private server?: Server;
+  private basePath: string;
+  private routes: Route[];
+
+  constructor(
+    private simulator: AuthFlowSimulator,
+    private options: AuthServerOptions = {}
+  ) {
+    this.basePath = (options.basePath ?? "").replace(/\/+$/, "");
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * Start listening, resolving with the bound address (port 0 picks a free port)
+   */
+  listen(port: number = 4000, hostname: string = "127.0.0.1"): Promise<AddressInfo> {
+    const server = createServer((request, response) => void this.handle(request, response));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, hostname, () => {
+        server.off("error", reject);
+        resolve(server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    delete this.server;
+    return new Promise((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Get the simulator behind the API
+   */
+  getSimulator(): AuthFlowSimulator {
+    return this.simulator;
+  }
+
+  /**
+   * Handle a request, e.g. when mounting the API on an existing node:http server
+   */
+  async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    let reply: RouteResponse;
+
+    try {
+      reply = await this.dispatch(request);
+    } catch (error) {
+      reply =
+        error instanceof ApiError
+          ? errorResponse(error.status, error.code, error.message)
+          : errorResponse(500, "internal-error", "Internal server error");
+    }
+
+    const headers: Record<string, string> = {
+      ...(this.options.cors !== false && {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type",
+      }),
+      ...reply.headers,
+    };
+
+    if (reply.status === 204) {
+      response.writeHead(204, headers).end();
+      return;
+    }
+
+    response
+      .writeHead(reply.status, { ...headers, "Content-Type": "application/json; charset=utf-8" })
+      .end(JSON.stringify(reply.body));
+  }
+
+  private async dispatch(request: IncomingMessage): Promise<RouteResponse> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (!url.pathname.startsWith(this.basePath)) {
+      throw new ApiError(404, "not-found", `No route for ${url.pathname}`);
+    }
+
+    const path = url.pathname.slice(this.basePath.length) || "/";
+    const matches = this.routes.flatMap((route) => {
+      const match = route.pattern.exec(path);
+      return match ? [{ route, match }] : [];
+    });
+
+    if (matches.length === 0) {
+      throw new ApiError(404, "not-found", `No route for ${url.pathname}`);
+    }
+
+    if (request.method === "OPTIONS") {
+      return { status: 204, body: undefined };
+    }
+
+    const found = matches.find(({ route }) => route.method === request.method);
+    if (!found) {
+      const allowed = matches.map(({ route }) => route.method).join(", ");
+      throw new ApiError(405, "method-not-allowed", `Use ${allowed} for ${url.pathname}`);
+    }
+
+    const body = request.method === "POST" ? await this.readBody(request) : {};
+    return found.route.handle({
+      params: decodePathParams(found.match),
+      query: url.searchParams,
+      body,
+    });
+  }
+
+  private async readBody(request: IncomingMessage): Promise<RequestBody> {
+    const limit = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const text = await readRequestBody(request, limit);
+    if (text === undefined) {
+      throw new ApiError(413, "payload-too-large", `Request body exceeds ${limit} bytes`);
+    }
+
+    if (text.trim() === "") {
+      return {};
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ApiError(400, "invalid-json", "Request body is not valid JSON");
+    }
+
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new ApiError(400, "invalid-request", "Request body must be a JSON object");
+    }
+    return body as RequestBody;
+  }
+
+  private createRoutes(): Route[] {
+    const simulator = this.simulator;
+
+    return [
+      {
+        method: "POST",
+        pattern: /^\/login$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.simulateLogin({
+              email: requireString(body, "email"),
+              password: requireString(body, "password"),
+              ...(body["rememberMe"] === true && { rememberMe: true }),
+              ...(typeof body["ipAddress"] === "string" && { ipAddress: body["ipAddress"] }),
+            })
+          ),
+      },
+      {
+        method: "POST",
+        pattern: /^\/2fa\/send$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.send2FACode(
+              requireString(body, "userId"),
+              requireOneOf(body, "channel", ["sms", "email"]) as OTPDeliveryChannel
+            )
+          ),
+      },
+      {
+        method: "POST",
+        pattern: /^\/2fa\/verify$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.simulate2FA(requireString(body, "userId"), {
+              code: requireString(body, "code"),
+              method: requireOneOf(body, "method", [
+                "sms",
+                "email",
+                "totp",
+                "app",
+              ]) as TwoFactorCode["method"],
+            })
+          ),
+      },
+      {
+        method: "POST",
+        pattern: /^\/password-reset\/request$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.simulatePasswordResetRequest({
+              email: requireString(body, "email"),
+              ...(typeof body["redirectUrl"] === "string" && { redirectUrl: body["redirectUrl"] }),
+            })
+          ),
+      },
+      {
+        method: "POST",
+        pattern: /^\/password-reset\/confirm$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.simulatePasswordResetConfirm({
+              token: requireString(body, "token"),
+              newPassword: requireString(body, "newPassword"),
+            })
+          ),
+      },
+      {
+        method: "GET",
+        pattern: /^\/oauth\/providers$/,
+        handle: async () => ({
+          status: 200,
+          body: { providers: simulator.getOAuthProviders() },
+        }),
+      },
+      {
+        method: "POST",
+        pattern: /^\/oauth\/initiate$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.initiateOAuth(requireString(body, "provider"), {
+              ...(typeof body["redirectUri"] === "string" && { redirectUri: body["redirectUri"] }),
+              ...(Array.isArray(body["scopes"]) && {
+                scopes: body["scopes"].filter(
+                  (scope): scope is string => typeof scope === "string"
+                ),
+              }),
+              ...(body["pkce"] === false && { pkce: false }),
+            })
+          ),
+      },
+      {
+        method: "POST",
+        pattern: /^\/oauth\/callback$/,
+        handle: async ({ body }) => this.oauthCallback(body),
+      },
+      {
+        // Providers redirect the browser here with the callback in the query string
+        method: "GET",
+        pattern: /^\/oauth\/callback$/,
+        handle: async ({ query }) => this.oauthCallback(Object.fromEntries(query.entries())),
+      },
+      {
+        method: "POST",
+        pattern: /^\/identities\/link$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.linkOAuthIdentity(requireString(body, "userId"), toOAuthCallback(body))
+          ),
+      },
+      {
+        method: "POST",
+        pattern: /^\/identities\/unlink$/,
+        handle: async ({ body }) =>
+          resultResponse(
+            await simulator.unlinkIdentity(
+              requireString(body, "userId"),
+              requireString(body, "provider"),
+              typeof body["subject"] === "string" ? body["subject"] : undefined
+            )
+          ),
+      },
+      {
+        method: "GET",
+        pattern: /^\/sessions\/([^/]+)$/,
+        handle: async ({ params }) => resultResponse(await simulator.checkSession(params[0]!)),
+      },
+      {
+        method: "POST",
+        pattern: /^\/logout$/,
+        handle: async ({ body }) =>
+          resultResponse(await simulator.simulateLogout(requireString(body, "sessionId"))),
+      },
+      {
+        method: "POST",
+        pattern: /^\/refresh$/,
+        handle: async ({ body }) =>
+          resultResponse(await simulator.refreshSession(requireString(body, "refreshToken"))),
+      },
+      {
+        method: "GET",
+        pattern: /^\/events$/,
+        handle: async ({ query }) => {
+          const type = query.get("type");
+          const limit = Number(query.get("limit") ?? Infinity);
+          if (Number.isNaN(limit) || limit < 0) {
+            throw new ApiError(400, "invalid-request", "limit must be a non-negative number");
+          }
+
+          const events = simulator
+            .getEvents()
+            .filter((event) => type === null || event.type === (type as AuthEventType));
+          return {
+            status: 200,
+            body: { events: limit < events.length ? events.slice(-limit) : events },
+          };
+        },
+      },
+      {
+        // Public keys for gateways validating JWT access tokens (tokenFormat: "jwt")
+        method: "GET",
+        pattern: /^\/\.well-known\/jwks\.json$/,
+        handle: async () => ({
+          status: 200,
+          body: { keys: simulator.getKeyRing().getPublicJwks() },
+        }),
+      },
+      {
+        method: "GET",
+        pattern: /^\/state$/,
+        handle: async () => {
+          const state = simulator.getState();
+          return { status: 200, body: { ...state, users: state.users.map(toPublicUser) } };
+        },
+      },
+    ];
+  }
+
+  private async oauthCallback(body: RequestBody): Promise<RouteResponse> {
+    return resultResponse(await this.simulator.simulateOAuthCallback(toOAuthCallback(body)));
+  }
+}
+
+/**
+ * Create an AuthServer and start listening
+ */
+export async function startAuthServer(
+  simulator: AuthFlowSimulator,
+  port?: number,
+  options?: AuthServerOptions
+): Promise<AuthServer> {
+  const server = new AuthServer(simulator, options);
+  await server.listen(port);
+  return server;
+}
+
+function resultResponse(result: AuthResult): RouteResponse {
+  const body = { ...result, ...(result.user && { user: toPublicUser(result.user) }) };
+  if (result.success) {
+    return { status: 200, body };
+  }
+
+  return {
+    status: result.errorCode ? ERROR_STATUS[result.errorCode] : 400,
+    body,
+    ...(result.retryAfter !== undefined && {
+      headers: { "Retry-After": String(result.retryAfter) },
+    }),
+  };
+}
+
+function errorResponse(status: number, errorCode: ApiErrorCode, error: string): RouteResponse {
+  const body: ApiErrorBody = { success: false, error, errorCode };
+  return { status, body };
+}
+
+function toOAuthCallback(body: RequestBody): OAuthCallback {
+  // Providers report failures as ?error=...&error_description=... instead of a code
+  if (body["error"] !== undefined) {
+    return {
+      code: typeof body["code"] === "string" ? body["code"] : "",
+      state: typeof body["state"] === "string" ? body["state"] : "",
+      provider: requireString(body, "provider"),
+      outcome: {
+        error: requireOneOf(body, "error", OAUTH_PROVIDER_ERRORS) as OAuthProviderError,
+        ...(typeof body["error_description"] === "string" && {
+          errorDescription: body["error_description"],
+        }),
+      },
+    };
+  }
+
+  return {
+    code: requireString(body, "code"),
+    // A missing state is the simulator's to reject, so it reports oauth-state-missing
+    state: typeof body["state"] === "string" ? body["state"] : "",
+    provider: requireString(body, "provider"),
+    ...(typeof body["codeVerifier"] === "string" && { codeVerifier: body["codeVerifier"] }),
+    ...(typeof body["accountId"] === "string" && { accountId: body["accountId"] }),
+  };
+}
+
+function toPublicUser(user: User): User {
+  const publicUser = { ...user };
+  delete publicUser.passwordHash;
+  delete publicUser.totpSecret;
+  return publicUser;
+}
+
+function decodePathParams(match: RegExpExecArray): string[] {
+  try {
+    return match.slice(1).map(decodeURIComponent);
+  } catch {
+    throw new ApiError(400, "invalid-request", "Path contains invalid percent-encoding");
+  }
+}
+
+function requireString(body: RequestBody, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || value === "") {
+    throw new ApiError(400, "invalid-request", `${field} is required`);
+  }
+  return value;
+}
+
+function requireOneOf(body: RequestBody, field: string, allowed: string[]): string {
+  const value = requireString(body, field);
+  if (!allowed.includes(value)) {
+    throw new ApiError(400, "invalid-request", `${field} must be one of ${allowed.join(", ")}`);
+  }
+  return value;
+}
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Run the simulator as a standalone mock auth backend
+ *
+ * Usage: auth-flow-sim [--port 4000] [--host 127.0.0.1] [--base-path /api/auth]
+ *                      [--storage ./auth-sim.json] [--seed 42] [--quiet]
+ */
+
+import { parseArgs } from "node:util";
+import { createAuthFlowSimulator } from "../utils/createAuthFlowSimulator";
+import { JsonFileStorage } from "../storage/JsonFileStorage";
+import { AuthServer } from "./AuthServer";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: process.env["PORT"] ?? "4000" },
+    host: { type: "string", default: "127.0.0.1" },
+    "base-path": { type: "string" },
+    storage: { type: "string" },
+    seed: { type: "string" },
+    quiet: { type: "boolean", default: false },
+  },
+});
+
+const storage = values.storage !== undefined ? new JsonFileStorage(values.storage) : undefined;
+const simulator = createAuthFlowSimulator({
+  enableLogging: !values.quiet,
+  ...(storage && { storage }),
+  ...(values.seed !== undefined && { seed: values.seed }),
+});
+
+const server = new AuthServer(simulator, {
+  ...(values["base-path"] !== undefined && { basePath: values["base-path"] }),
+});
+
+const address = await server.listen(Number(values.port), values.host);
+console.log(`Mock auth API listening on http://${address.address}:${address.port}`);
+
+// Write pending changes before exiting, whether stopped with Ctrl+C or by a process manager
+const shutdown = () => {
+  storage?.flush();
+  void server.close().then(() => process.exit(0));
+};
+process.once("SIGINT", shutdown);
+process.once("SIGTERM", shutdown);
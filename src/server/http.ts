@@ -0,0 +1,23 @@
+import type { IncomingMessage } from "node:http";
+
+/**
+ * Read a request body as text
+ * Resolves undefined once the body grows past `limit` bytes.
+ */
+export async function readRequestBody(
+  request: IncomingMessage,
+  limit: number
+): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > limit) {
+      return undefined;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
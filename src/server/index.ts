@@ -0,0 +1,5 @@
+/**
+ * Server module exports
+ */
+
+export { AuthServer, startAuthServer } from "./AuthServer";
@@ -1,50 +1,135 @@
+import { URLSearchParams } from "node:url";
 import type {
   User,
   AuthSession,
   LoginCredentials,
+  TwoFactorChallenge,
   TwoFactorCode,
   PasswordResetRequest,
   PasswordResetConfirm,
   OAuthCallback,
+  OAuthInitiateOptions,
+  OAuthInitiateResult,
+  OAuthStateRecord,
+  OAuthCallbackResult,
+  OAuthProfile,
+  OAuthProvider,
+  LinkedIdentity,
+  OAuthOutcome,
+  OAuthProviderError,
   AuthResult,
+  AuthErrorCode,
   FlowSimulation,
   SimulatorOptions,
   AuthEvent,
   SimulatorState,
+  StorageAdapter,
   AuthEventType,
+  AuthEventHandler,
+  AuthEventListenerType,
+  AuthFlowConfig,
+  Clock,
+  LoginAttemptRecord,
+  RandomSource,
+  MockUser,
+  OTPDeliveryChannel,
+  OutboxMessage,
+  PasswordResetToken,
+  TOTPEnrollmentResult,
+  TOTPOptions,
+  JwtAlgorithm,
+  JwtVerifyOptions,
+  JwtVerifyResult,
+  SigningKey,
+  RefreshTokenRecord,
 } from "../types/index";
-import { generateId, delay, createMockUser } from "../utils/helpers";
+import {
+  generateId,
+  delay,
+  createMockUser,
+  generate2FACode,
+  generateResetToken,
+  validatePasswordStrength,
+} from "../utils/helpers";
+import { DEFAULT_MOCK_PASSWORD, hashPassword, verifyPassword } from "../utils/password";
+import { systemClock } from "../utils/clock";
+import { createSeededRandom, mathRandom, secureRandomBytes } from "../utils/random";
+import { base32Encode, buildOTPAuthUri, generateTOTP, verifyTOTP } from "../utils/totp";
+import { cloneState, deserializeState, serializeState } from "../utils/snapshot";
+import { MemoryStorage } from "../storage/MemoryStorage";
+import { DEFAULT_CONFIG } from "./defaults";
+import { exportSigningKey, importSigningKey, KeyRing, signJwt, verifyJwt } from "../utils/jwt";
+import { createCodeChallenge, generateCodeVerifier } from "../utils/pkce";
+import {
+  DEFAULT_OAUTH_PROVIDERS,
+  buildOAuthProfile,
+  createGenericProvider,
+  findOAuthAccount,
+  getAuthorizationUrl,
+} from "../oauth/providers";
+import { describeOAuthError } from "../oauth/outcomes";
+
+/**
+ * State kept by the simulator itself; users, sessions, tokens and events live in storage
+ */
+type LocalState = Omit<
+  SimulatorState,
+  "users" | "sessions" | "events" | "resetTokens" | "refreshTokens" | "signingKeys"
+>;
 
 /**
  * Main Authentication Flow Simulator class
  * Provides comprehensive simulation of authentication flows for development
  */
 export class AuthFlowSimulator {
-  private state: SimulatorState;
+  private state: LocalState;
+  private storage: StorageAdapter;
   private options: SimulatorOptions;
+  private clock: Clock;
+  private random: RandomSource;
+  private keyRing: KeyRing;
+  private oauthProviders = new Map<string, OAuthProvider>();
+  private oauthOutcomes = new Map<string, { outcome: OAuthOutcome; remaining: number }>();
+  private listeners = new Map<
+    AuthEventListenerType,
+    { handler: AuthEventHandler; once: boolean }[]
+  >();
 
   constructor(options: SimulatorOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.random = options.seed !== undefined ? createSeededRandom(options.seed) : mathRandom;
     this.options = {
       enableLogging: true,
       delayMs: 100,
+      passwordMode: "strict",
+      twoFactorMode: "strict",
       ...options,
     };
 
+    // Storage that already holds users (e.g. a JSON file from an earlier run) is left as is
+    this.storage = options.storage ?? new MemoryStorage();
+    if (this.storage.getUsers().length === 0) {
+      const users = options.mockUsers
+        ? options.mockUsers.map((mockUser) => this.prepareMockUser(mockUser))
+        : this.createDefaultUsers();
+      users.forEach((user) => this.storage.saveUser(user));
+    }
+
     this.state = {
-      users: options.mockUsers || this.createDefaultUsers(),
-      sessions: [],
-      events: [],
-      config: {
-        enable2FA: true,
-        enablePasswordReset: true,
-        enableOAuth: true,
-        sessionTimeout: 30,
-        maxLoginAttempts: 5,
-        lockoutDuration: 15,
-        ...options.config,
-      },
+      loginAttempts: [],
+      outbox: [],
+      oauthStates: [],
+      twoFactorChallenges: [],
+      config: { ...DEFAULT_CONFIG, ...options.config },
       isRunning: false,
     };
+
+    // Keys are only generated once the first JWT is signed
+    this.keyRing = new KeyRing(this.state.config.jwtAlgorithm, this.random, this.clock);
+
+    for (const provider of [...DEFAULT_OAUTH_PROVIDERS, ...(options.oauthProviders ?? [])]) {
+      this.oauthProviders.set(provider.name.toLowerCase(), provider);
+    }
   }
 
   /**
@@ -63,6 +148,7 @@ export class AuthFlowSimulator {
     this.state.isRunning = false;
     this.log("Simulator stopped");
     this.emitEvent("logout", true);
+    this.storage.flush?.();
   }
 
   /**
@@ -71,11 +157,29 @@ export class AuthFlowSimulator {
   async simulateLogin(credentials: LoginCredentials): Promise<AuthResult> {
     await this.delay();
 
+    const attemptKeys = this.getAttemptKeys(credentials);
+    const lockout = this.findActiveLockout(attemptKeys);
+    if (lockout) {
+      this.emitEvent(
+        "login-failure",
+        false,
+        { email: credentials.email, lockedUntil: lockout.lockedUntil },
+        "Account locked"
+      );
+      return this.createLockedResult(lockout);
+    }
+
     const user = this.findUserByEmail(credentials.email);
 
     if (!user) {
       this.emitEvent("login-failure", false, { email: credentials.email }, "User not found");
-      return { success: false, error: "Invalid credentials" };
+      return (
+        this.recordLoginFailure(attemptKeys) ?? {
+          success: false,
+          error: "Invalid credentials",
+          errorCode: "invalid-credentials",
+        }
+      );
     }
 
     // Simulate password validation
@@ -88,20 +192,31 @@ export class AuthFlowSimulator {
         { userId: user.id, email: credentials.email },
         "Invalid password"
       );
-      return { success: false, error: "Invalid credentials" };
+      return (
+        this.recordLoginFailure(attemptKeys) ?? {
+          success: false,
+          error: "Invalid credentials",
+          errorCode: "invalid-credentials",
+        }
+      );
     }
 
-    // Check if 2FA is required
-    if (user.twoFactorEnabled) {
+    // Check if 2FA is required; the account's failures are only cleared once the code is verified
+    if (user.twoFactorEnabled && this.state.config.enable2FA) {
+      this.clearLoginFailures(attemptKeys.filter((key) => key.startsWith("ip:")));
+      this.startTwoFactorChallenge(user, credentials.rememberMe ?? false);
       this.emitEvent("2fa-required", true, { userId: user.id });
       return {
         success: false,
         requires2FA: true,
         user,
         error: "Two-factor authentication required",
+        errorCode: "two-factor-required",
       };
     }
 
+    this.clearLoginFailures(attemptKeys);
+
     // Create session
     const session = await this.createSession(user, credentials.rememberMe);
 
@@ -120,21 +235,57 @@ export class AuthFlowSimulator {
   async simulate2FA(userId: string, code: TwoFactorCode): Promise<AuthResult> {
     await this.delay();
 
+    if (!this.state.config.enable2FA) {
+      return this.featureDisabled("enable2FA", "2fa-failure", { userId });
+    }
+
     const user = this.findUserById(userId);
     if (!user) {
-      return { success: false, error: "User not found" };
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
+
+    // Wrong codes count towards the same account lockout as wrong passwords
+    const attemptKeys = [`account:${user.email}`];
+    const lockout = this.findActiveLockout(attemptKeys);
+    if (lockout) {
+      this.emitEvent(
+        "2fa-failure",
+        false,
+        { userId, lockedUntil: lockout.lockedUntil },
+        "Account locked"
+      );
+      return this.createLockedResult(lockout);
     }
 
     // Simulate 2FA code validation
-    const isValidCode = await this.validate2FACode(user, code);
+    const codeStatus = await this.validate2FACode(user, code);
+
+    if (codeStatus === "expired") {
+      this.emitEvent("2fa-failure", false, { userId }, "2FA code expired");
+      return { success: false, error: "2FA code expired", errorCode: "2fa-code-expired" };
+    }
+
+    if (codeStatus === "reused") {
+      this.emitEvent("2fa-failure", false, { userId }, "2FA code already used");
+      return { success: false, error: "2FA code already used", errorCode: "2fa-code-reused" };
+    }
 
-    if (!isValidCode) {
+    if (codeStatus === "invalid") {
       this.emitEvent("2fa-failure", false, { userId }, "Invalid 2FA code");
-      return { success: false, error: "Invalid 2FA code" };
+      return (
+        this.recordLoginFailure(attemptKeys) ?? {
+          success: false,
+          error: "Invalid 2FA code",
+          errorCode: "invalid-2fa-code",
+        }
+      );
     }
 
-    // Create session after successful 2FA
-    const session = await this.createSession(user, false);
+    this.clearLoginFailures(attemptKeys);
+
+    // Create session after successful 2FA, keeping the login's remember-me choice
+    const challenge = this.takeTwoFactorChallenge(userId);
+    const session = await this.createSession(user, challenge?.rememberMe);
 
     this.emitEvent("2fa-success", true, { userId, sessionId: session.id });
 
@@ -145,12 +296,184 @@ export class AuthFlowSimulator {
     };
   }
 
+  /**
+   * Send a 2FA code by SMS or email
+   * The message lands in the in-memory outbox instead of a real provider
+   */
+  async send2FACode(userId: string, channel: OTPDeliveryChannel): Promise<AuthResult> {
+    await this.delay();
+
+    if (!this.state.config.enable2FA) {
+      return this.featureDisabled("enable2FA", "2fa-code-sent", { userId, channel });
+    }
+
+    const user = this.findUserById(userId);
+    if (!user) {
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
+
+    const recipient = channel === "sms" ? user.phoneNumber : user.email;
+    if (!recipient) {
+      this.emitEvent("2fa-code-sent", false, { userId, channel }, "No recipient for channel");
+      return {
+        success: false,
+        error: `User has no ${channel === "sms" ? "phone number" : "email address"}`,
+        errorCode: "2fa-no-recipient",
+      };
+    }
+
+    const now = this.clock.now();
+    const previous = this.findLatestOutboxMessage(userId, channel);
+    const resendAt = previous
+      ? previous.sentAt.getTime() + this.state.config.otpResendInterval * 1000
+      : 0;
+    if (resendAt > now.getTime()) {
+      this.emitEvent("2fa-code-sent", false, { userId, channel }, "Resend throttled");
+      return {
+        success: false,
+        error: "Please wait before requesting another code",
+        errorCode: "2fa-resend-throttled",
+        retryAfter: Math.ceil((resendAt - now.getTime()) / 1000),
+      };
+    }
+
+    const code = generate2FACode(this.random);
+    const message: OutboxMessage = {
+      id: generateId(this.clock, this.random),
+      userId,
+      channel,
+      recipient,
+      body: `Your verification code is ${code}. It expires in ${this.state.config.otpCodeExpiry} minutes.`,
+      code,
+      sentAt: now,
+      expiresAt: new Date(now.getTime() + this.state.config.otpCodeExpiry * 60 * 1000),
+    };
+
+    this.state.outbox.push(message);
+    this.emitEvent("2fa-code-sent", true, { userId, channel, messageId: message.id });
+
+    return { success: true, user };
+  }
+
+  /**
+   * Get messages from the simulated SMS/email outbox
+   */
+  getOutbox(
+    filter: { userId?: string; recipient?: string; channel?: OTPDeliveryChannel } = {}
+  ): OutboxMessage[] {
+    return this.state.outbox.filter(
+      (message) =>
+        (!filter.userId || message.userId === filter.userId) &&
+        (!filter.recipient || message.recipient === filter.recipient) &&
+        (!filter.channel || message.channel === filter.channel)
+    );
+  }
+
+  /**
+   * Empty the simulated SMS/email outbox
+   */
+  clearOutbox(): void {
+    this.state.outbox = [];
+  }
+
+  /**
+   * Start TOTP enrollment for a user
+   * Returns the base32 secret and otpauth:// URI to show as a QR code
+   */
+  async enrollTOTP(
+    userId: string,
+    issuer: string = "AuthFlowSimulator"
+  ): Promise<TOTPEnrollmentResult> {
+    await this.delay();
+
+    if (!this.state.config.enable2FA) {
+      return this.featureDisabled("enable2FA", "2fa-enrolled", { userId });
+    }
+
+    const user = this.findUserById(userId);
+    if (!user) {
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
+
+    const secret = base32Encode(secureRandomBytes(20, this.random));
+    user.totpSecret = secret;
+    delete user.totpEnrolledAt;
+    delete user.totpLastUsedStep;
+    this.storage.saveUser(user);
+
+    return {
+      success: true,
+      user,
+      enrollment: {
+        secret,
+        uri: buildOTPAuthUri(secret, user.email, issuer, this.getTOTPOptions()),
+      },
+    };
+  }
+
+  /**
+   * Confirm TOTP enrollment with a code from the authenticator app
+   * Enables 2FA for the user on success
+   */
+  async confirmTOTPEnrollment(userId: string, code: string): Promise<AuthResult> {
+    await this.delay();
+
+    if (!this.state.config.enable2FA) {
+      return this.featureDisabled("enable2FA", "2fa-enrolled", { userId });
+    }
+
+    const user = this.findUserById(userId);
+    if (!user) {
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
+
+    if (!user.totpSecret) {
+      return {
+        success: false,
+        error: "TOTP enrollment not started",
+        errorCode: "2fa-not-enrolled",
+      };
+    }
+
+    const counter = verifyTOTP(user.totpSecret, code, this.clock.now(), this.getTOTPOptions());
+    if (counter === undefined) {
+      this.emitEvent("2fa-enrolled", false, { userId }, "Invalid 2FA code");
+      return { success: false, error: "Invalid 2FA code", errorCode: "invalid-2fa-code" };
+    }
+
+    user.totpEnrolledAt = this.clock.now();
+    user.totpLastUsedStep = counter;
+    user.twoFactorEnabled = true;
+    this.storage.saveUser(user);
+    this.emitEvent("2fa-enrolled", true, { userId, method: "totp" });
+
+    return { success: true, user };
+  }
+
+  /**
+   * Get the TOTP code an authenticator app would currently show for a user
+   */
+  getCurrentTOTPCode(userId: string): string | undefined {
+    const user = this.findUserById(userId);
+    if (!user?.totpSecret) {
+      return undefined;
+    }
+
+    return generateTOTP(user.totpSecret, this.clock.now(), this.getTOTPOptions());
+  }
+
   /**
    * Simulate password reset request
    */
   async simulatePasswordResetRequest(request: PasswordResetRequest): Promise<AuthResult> {
     await this.delay();
 
+    if (!this.state.config.enablePasswordReset) {
+      return this.featureDisabled("enablePasswordReset", "password-reset-requested", {
+        email: request.email,
+      });
+    }
+
     const user = this.findUserByEmail(request.email);
     if (!user) {
       // Don't reveal if user exists for security
@@ -158,10 +481,30 @@ export class AuthFlowSimulator {
       return { success: true };
     }
 
+    // Issuing a new token invalidates any outstanding ones
+    const now = this.clock.now();
+    for (const previous of this.storage.findResetTokensByUserId(user.id)) {
+      if (!previous.usedAt && !previous.supersededAt) {
+        previous.supersededAt = now;
+        this.storage.saveResetToken(previous);
+      }
+    }
+
     // Generate reset token (in real app, this would be sent via email)
-    const resetToken = generateId();
+    const resetToken: PasswordResetToken = {
+      token: generateResetToken(this.clock, this.random),
+      userId: user.id,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.state.config.passwordResetTokenExpiry * 60 * 1000),
+    };
+    this.storage.saveResetToken(resetToken);
 
-    this.emitEvent("password-reset-requested", true, { userId: user.id, resetToken });
+    this.emitEvent("password-reset-requested", true, {
+      userId: user.id,
+      email: user.email,
+      resetToken: resetToken.token,
+      expiresAt: resetToken.expiresAt,
+    });
 
     return { success: true };
   }
@@ -172,188 +515,1262 @@ export class AuthFlowSimulator {
   async simulatePasswordResetConfirm(confirm: PasswordResetConfirm): Promise<AuthResult> {
     await this.delay();
 
-    // In a real app, you'd validate the token
-    // For simulation, we'll just accept any token
-    this.emitEvent("password-reset-completed", true, { token: confirm.token });
+    if (!this.state.config.enablePasswordReset) {
+      return this.featureDisabled("enablePasswordReset", "password-reset-completed", {
+        token: confirm.token,
+      });
+    }
 
-    return { success: true };
+    const resetToken = this.storage.findResetToken(confirm.token);
+    const tokenError = this.checkResetToken(resetToken);
+    if (tokenError) {
+      this.emitEvent("password-reset-completed", false, { token: confirm.token }, tokenError.error);
+      return tokenError;
+    }
+
+    const user = this.findUserById(resetToken!.userId);
+    if (!user) {
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
+
+    const strength = validatePasswordStrength(confirm.newPassword);
+    if (!strength.isValid) {
+      const error = strength.errors.join("; ");
+      this.emitEvent("password-reset-completed", false, { userId: user.id }, error);
+      return { success: false, error, errorCode: "weak-password" };
+    }
+
+    user.passwordHash = hashPassword(confirm.newPassword, this.random);
+    resetToken!.usedAt = this.clock.now();
+    this.storage.saveUser(user);
+    this.storage.saveResetToken(resetToken!);
+
+    // A password change signs the user out everywhere
+    const revokedSessions = this.storage.findSessionsByUserId(user.id);
+    revokedSessions.forEach((s) => this.storage.deleteSession(s.id));
+    this.storage
+      .getRefreshTokens()
+      .filter((record) => record.userId === user.id)
+      .forEach((record) => this.revokeRefreshFamily(record.familyId));
+
+    this.emitEvent("password-reset-completed", true, {
+      userId: user.id,
+      revokedSessionIds: revokedSessions.map((s) => s.id),
+    });
+
+    return { success: true, user };
+  }
+
+  /**
+   * Start an OAuth login by issuing the state, nonce and PKCE challenge the callback is checked against
+   * The code verifier is only returned to the caller, as a real client would keep it.
+   */
+  async initiateOAuth(
+    provider: string,
+    options: OAuthInitiateOptions = {}
+  ): Promise<OAuthInitiateResult> {
+    await this.delay();
+
+    if (!this.state.config.enableOAuth) {
+      return this.featureDisabled("enableOAuth", "oauth-initiated", { provider });
+    }
+
+    // Callbacks are matched against the registered name, whatever case the caller used
+    const definition = this.getOAuthProvider(provider);
+    const now = this.clock.now();
+    this.pruneOAuthStates(now);
+    const scopes = options.scopes ?? definition.scopes;
+    const redirectUri = options.redirectUri ?? definition.redirectUri;
+    const codeVerifier = options.pkce !== false ? generateCodeVerifier(this.random) : undefined;
+    const record: OAuthStateRecord = {
+      state: secureRandomBytes(16, this.random).toString("base64url"),
+      provider: definition.name,
+      nonce: secureRandomBytes(16, this.random).toString("base64url"),
+      ...(codeVerifier !== undefined && { codeChallenge: createCodeChallenge(codeVerifier) }),
+      redirectUri,
+      scopes,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.state.config.oauthStateExpiry * 60 * 1000),
+    };
+    this.state.oauthStates.push(record);
+
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: definition.clientId,
+      redirect_uri: redirectUri,
+      scope: scopes.join(" "),
+      state: record.state,
+      nonce: record.nonce,
+      ...(record.codeChallenge !== undefined && {
+        code_challenge: record.codeChallenge,
+        code_challenge_method: "S256",
+      }),
+    });
+
+    this.emitEvent("oauth-initiated", true, {
+      provider: definition.name,
+      state: record.state,
+      pkce: codeVerifier !== undefined,
+    });
+
+    return {
+      success: true,
+      authorization: {
+        provider: definition.name,
+        state: record.state,
+        nonce: record.nonce,
+        ...(codeVerifier !== undefined && {
+          codeVerifier,
+          codeChallenge: createCodeChallenge(codeVerifier),
+          codeChallengeMethod: "S256" as const,
+        }),
+        authorizationUrl: `${getAuthorizationUrl(definition)}?${params.toString()}`,
+        expiresAt: record.expiresAt,
+      },
+    };
   }
 
   /**
-   * Simulate OAuth callback
+   * Simulate the provider redirecting back after an OAuth login started with initiateOAuth()
+   * The state must match a pending request for the same provider and is single use; when PKCE
+   * was used, the code verifier must match the challenge.
    */
-  async simulateOAuthCallback(callback: OAuthCallback): Promise<AuthResult> {
+  async simulateOAuthCallback(callback: OAuthCallback): Promise<OAuthCallbackResult> {
     await this.delay();
 
-    // Simulate OAuth provider response
-    const user = await this.findOrCreateOAuthUser(callback);
+    if (!this.state.config.enableOAuth) {
+      return this.featureDisabled("enableOAuth", "oauth-callback", {
+        provider: callback.provider,
+      });
+    }
+
+    const read = this.readOAuthProfile(callback);
+    if ("rejection" in read) {
+      return read.rejection;
+    }
+    const { profile } = read;
+
+    const resolved = this.resolveOAuthUser(callback, profile);
+    if ("rejection" in resolved) {
+      return { ...resolved.rejection, profile };
+    }
+
+    const { user } = resolved;
     const session = await this.createSession(user, false);
 
     this.emitEvent("oauth-callback", true, {
       userId: user.id,
       sessionId: session.id,
       provider: callback.provider,
+      subject: profile.subject,
+      scopes: profile.scopes,
     });
 
     return {
       success: true,
       user,
       session,
+      profile,
     };
   }
 
   /**
-   * Simulate logout
+   * Link the provider account from an OAuth callback to a user, e.g. from a settings page
+   * The callback is checked like simulateOAuthCallback's, but no session is created.
    */
-  async simulateLogout(sessionId: string): Promise<AuthResult> {
+  async linkOAuthIdentity(userId: string, callback: OAuthCallback): Promise<OAuthCallbackResult> {
     await this.delay();
 
-    const sessionIndex = this.state.sessions.findIndex((s) => s.id === sessionId);
-    if (sessionIndex === -1) {
-      return { success: false, error: "Session not found" };
+    if (!this.state.config.enableOAuth) {
+      return this.featureDisabled("enableOAuth", "identity-linked", {
+        userId,
+        provider: callback.provider,
+      });
     }
 
-    this.state.sessions.splice(sessionIndex, 1);
-    this.emitEvent("logout", true, { sessionId });
+    const user = this.findUserById(userId);
+    if (!user) {
+      this.emitEvent("identity-linked", false, { userId }, "User not found");
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
 
-    return { success: true };
+    const read = this.readOAuthProfile(callback);
+    if ("rejection" in read) {
+      return read.rejection;
+    }
+    const { profile } = read;
+
+    const owner = this.findUserByIdentity(profile.provider, profile.subject);
+    if (owner && owner.id !== user.id) {
+      const error = `This ${profile.provider} account is linked to another user`;
+      this.emitEvent(
+        "identity-linked",
+        false,
+        { userId, provider: profile.provider, subject: profile.subject },
+        error
+      );
+      return { success: false, error, errorCode: "identity-already-linked", profile };
+    }
+
+    if (!owner) {
+      this.linkIdentity(user, profile, "explicit");
+    }
+
+    return { success: true, user, profile };
   }
 
   /**
-   * Check if session is valid
+   * Remove a linked OAuth identity from a user
+   * Refused when it is the user's only way to log in: no password and no other identity.
    */
-  async checkSession(sessionId: string): Promise<AuthResult> {
+  async unlinkIdentity(userId: string, provider: string, subject?: string): Promise<AuthResult> {
     await this.delay();
 
-    const session = this.state.sessions.find((s) => s.id === sessionId);
-    if (!session) {
-      this.emitEvent("session-expired", false, { sessionId }, "Session not found");
-      return { success: false, error: "Session not found" };
+    const user = this.findUserById(userId);
+    if (!user) {
+      this.emitEvent("identity-unlinked", false, { userId, provider }, "User not found");
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
     }
 
-    if (session.expiresAt < new Date()) {
-      // Remove expired session
-      this.state.sessions = this.state.sessions.filter((s) => s.id !== sessionId);
-      this.emitEvent("session-expired", false, { sessionId }, "Session expired");
-      return { success: false, error: "Session expired" };
+    const identities = user.identities ?? [];
+    const identity = identities.find(
+      (i) =>
+        i.provider.toLowerCase() === provider.toLowerCase() &&
+        (subject === undefined || i.subject === subject)
+    );
+    if (!identity) {
+      const error = `No linked ${provider} identity`;
+      this.emitEvent("identity-unlinked", false, { userId, provider }, error);
+      return { success: false, error, errorCode: "identity-not-found" };
     }
 
-    const user = this.findUserById(session.userId);
-    if (!user) {
-      return { success: false, error: "User not found" };
+    const details = { userId, provider: identity.provider, subject: identity.subject };
+
+    if (!user.passwordHash && identities.length === 1) {
+      const error = "Cannot remove the last login method";
+      this.emitEvent("identity-unlinked", false, details, error);
+      return { success: false, error, errorCode: "last-login-method" };
     }
 
-    return {
-      success: true,
-      user,
-      session,
-    };
+    user.identities = identities.filter((i) => i !== identity);
+    this.storage.saveUser(user);
+    this.emitEvent("identity-unlinked", true, details);
+
+    return { success: true, user };
   }
 
   /**
-   * Create a flow simulation
+   * Register an OAuth provider, replacing any provider with the same name
    */
-  createFlowSimulation(name: string, description: string): FlowSimulation {
-    const simulation: FlowSimulation = {
-      id: generateId(),
-      name,
-      description,
-      steps: [],
-      currentStepIndex: 0,
-      status: "not-started",
-      createdAt: new Date(),
-    };
-
-    return simulation;
+  registerOAuthProvider(provider: OAuthProvider): void {
+    this.oauthProviders.set(provider.name.toLowerCase(), provider);
+    this.log(`OAuth provider registered: ${provider.name}`);
   }
 
   /**
-   * Get current simulator state
+   * Get the registered OAuth providers
    */
-  getState(): SimulatorState {
-    return { ...this.state };
+  getOAuthProviders(): OAuthProvider[] {
+    return [...this.oauthProviders.values()];
   }
 
   /**
-   * Get all events
+   * Script what a provider does on its callbacks: return an error, expire the code or grant fewer
+   * scopes. Applies until cleared, or to the next `times` callbacks; an outcome on the callback wins.
    */
-  getEvents(): AuthEvent[] {
-    return [...this.state.events];
+  scriptOAuthOutcome(provider: string, outcome: OAuthOutcome, times?: number): void {
+    this.oauthOutcomes.set(provider.toLowerCase(), { outcome, remaining: times ?? Infinity });
   }
 
   /**
-   * Clear all data
+   * Clear the scripted outcome of one provider, or of all providers
    */
-  reset(): void {
-    this.state.users = this.createDefaultUsers();
-    this.state.sessions = [];
-    this.state.events = [];
-    this.log("Simulator reset");
-  }
-
-  // Private methods
-
-  private createDefaultUsers(): User[] {
-    return [
-      createMockUser("john@example.com", "John Doe", true),
-      createMockUser("jane@example.com", "Jane Smith", false),
-      createMockUser("admin@example.com", "Admin User", true),
-    ];
+  clearOAuthOutcomes(provider?: string): void {
+    if (provider === undefined) {
+      this.oauthOutcomes.clear();
+    } else {
+      this.oauthOutcomes.delete(provider.toLowerCase());
+    }
   }
 
-  private findUserByEmail(email: string): User | undefined {
-    return this.state.users.find((user) => user.email === email);
-  }
+  /**
+   * Simulate logout
+   */
+  async simulateLogout(sessionId: string): Promise<AuthResult> {
+    await this.delay();
 
-  private findUserById(id: string): User | undefined {
-    return this.state.users.find((user) => user.id === id);
-  }
+    if (!this.storage.findSession(sessionId)) {
+      return { success: false, error: "Session not found", errorCode: "session-not-found" };
+    }
 
-  private async validatePassword(_user: User, password: string): Promise<boolean> {
-    // In simulation, accept any password
-    // In real app, you'd hash and compare
-    return password.length >= 6;
-  }
+    this.storage.deleteSession(sessionId);
+    this.revokeRefreshFamily(sessionId);
+    this.emitEvent("logout", true, { sessionId });
 
-  private async validate2FACode(_user: User, code: TwoFactorCode): Promise<boolean> {
-    // In simulation, accept any 6-digit code
-    return /^\d{6}$/.test(code.code);
+    return { success: true };
   }
 
-  private async createSession(user: User, rememberMe: boolean = false): Promise<AuthSession> {
-    const session: AuthSession = {
-      id: generateId(),
-      userId: user.id,
-      token: generateId(),
-      refreshToken: generateId(),
-      expiresAt: new Date(Date.now() + (rememberMe ? 30 * 24 * 60 * 60 * 1000 : 30 * 60 * 1000)), // 30 days or 30 minutes
-      createdAt: new Date(),
-      deviceInfo: {
-        userAgent: "AuthFlowSimulator/1.0.0",
-        ipAddress: "127.0.0.1",
-        deviceType: "desktop",
-      },
-    };
+  /**
+   * Exchange a refresh token for a new access token and a rotated refresh token
+   * Each token can be exchanged once. Presenting an already rotated token is treated as theft:
+   * the whole token family and its session are revoked and a refresh-token-reused event is emitted.
+   */
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    await this.delay();
 
-    this.state.sessions.push(session);
-    this.emitEvent("session-created", true, { userId: user.id, sessionId: session.id });
+    const record = this.storage.findRefreshToken(refreshToken);
+    const now = this.clock.now();
 
-    return session;
-  }
+    if (!record) {
+      this.emitEvent("token-refreshed", false, {}, "Invalid refresh token");
+      return {
+        success: false,
+        error: "Invalid refresh token",
+        errorCode: "invalid-refresh-token",
+      };
+    }
 
-  private async findOrCreateOAuthUser(callback: OAuthCallback): Promise<User> {
-    // In simulation, create a user based on OAuth provider
-    const email = `oauth-${callback.provider}@example.com`;
-    let user = this.findUserByEmail(email);
+    const details = { userId: record.userId, familyId: record.familyId };
 
-    if (!user) {
-      user = createMockUser(email, `${callback.provider} User`, false);
-      this.state.users.push(user);
+    if (record.revokedAt) {
+      this.emitEvent("token-refreshed", false, details, "Refresh token revoked");
+      return {
+        success: false,
+        error: "Refresh token revoked",
+        errorCode: "refresh-token-revoked",
+      };
     }
 
-    return user;
-  }
-
+    if (record.rotatedAt) {
+      this.revokeRefreshFamily(record.familyId);
+      this.storage.deleteSession(record.familyId);
+      this.emitEvent(
+        "refresh-token-reused",
+        false,
+        { ...details, rotatedAt: record.rotatedAt },
+        "Refresh token reused; token family revoked"
+      );
+      return {
+        success: false,
+        error: "Refresh token already used",
+        errorCode: "refresh-token-reused",
+      };
+    }
+
+    if (record.expiresAt <= now) {
+      this.emitEvent("token-refreshed", false, details, "Refresh token expired");
+      return {
+        success: false,
+        error: "Refresh token expired",
+        errorCode: "refresh-token-expired",
+      };
+    }
+
+    const user = this.findUserById(record.userId);
+    if (!user) {
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
+
+    record.rotatedAt = now;
+    this.storage.saveRefreshToken(record);
+
+    // The access token may have expired and its session been removed; the family lives on
+    let session = this.storage.findSession(record.familyId);
+    if (session) {
+      session.expiresAt = new Date(now.getTime() + this.getSessionLifetime(record.rememberMe));
+      session.lastActivityAt = now;
+      session.refreshToken = this.issueRefreshToken(session);
+      session.token = this.createSessionToken(user, session);
+      this.storage.saveSession(session);
+    } else {
+      session = await this.createSession(user, record.rememberMe, record.familyId);
+    }
+
+    if (session.refreshToken !== undefined) {
+      record.replacedBy = session.refreshToken;
+      this.storage.saveRefreshToken(record);
+    }
+    this.emitEvent("token-refreshed", true, { ...details, sessionId: session.id });
+
+    return { success: true, user, session };
+  }
+
+  /**
+   * Check if session is valid
+   */
+  async checkSession(sessionId: string): Promise<AuthResult> {
+    await this.delay();
+
+    const session = this.storage.findSession(sessionId);
+    if (!session) {
+      this.emitEvent("session-expired", false, { sessionId }, "Session not found");
+      return { success: false, error: "Session not found", errorCode: "session-not-found" };
+    }
+
+    if (session.expiresAt < this.clock.now()) {
+      // Remove expired session
+      this.storage.deleteSession(sessionId);
+      this.emitEvent("session-expired", false, { sessionId }, "Session expired");
+      return { success: false, error: "Session expired", errorCode: "session-expired" };
+    }
+
+    const user = this.findUserById(session.userId);
+    if (!user) {
+      return { success: false, error: "User not found", errorCode: "user-not-found" };
+    }
+
+    const now = this.clock.now();
+    session.lastActivityAt = now;
+    if (this.state.config.sessionExpiryMode === "sliding") {
+      session.expiresAt = new Date(now.getTime() + this.getSessionLifetime(session.rememberMe));
+      if (this.state.config.tokenFormat === "jwt") {
+        // Reissue the token so its exp follows the extended session
+        session.token = this.createAccessToken(user, session);
+      }
+    }
+    this.storage.saveSession(session);
+
+    return {
+      success: true,
+      user,
+      session,
+    };
+  }
+
+  /**
+   * Verify a JWT access token's signature, expiry, issuer and audience
+   * Defaults to the configured issuer and audience and the simulator's clock.
+   */
+  verifyAccessToken(token: string, options: JwtVerifyOptions = {}): JwtVerifyResult {
+    return verifyJwt(token, this.keyRing.getKeys(), {
+      issuer: this.state.config.jwtIssuer,
+      audience: this.state.config.jwtAudience,
+      now: this.clock.now(),
+      ...options,
+    });
+  }
+
+  /**
+   * Sign new access tokens with a fresh key; tokens signed with older keys stay valid
+   */
+  rotateSigningKey(alg?: JwtAlgorithm): SigningKey {
+    const key = this.keyRing.rotate(alg);
+    this.log(`Rotated signing key to ${key.kid} (${key.alg})`);
+    return key;
+  }
+
+  /**
+   * Get the keys access tokens are signed with, e.g. to publish them as a JWKS
+   */
+  getKeyRing(): KeyRing {
+    return this.keyRing;
+  }
+
+  /**
+   * Lift a lockout on an account before its lockout window elapses
+   */
+  unlockAccount(email: string): boolean {
+    const record = this.state.loginAttempts.find((r) => r.key === `account:${email}`);
+    if (!record) {
+      return false;
+    }
+
+    this.state.loginAttempts = this.state.loginAttempts.filter((r) => r !== record);
+    if (record.lockedUntil) {
+      this.emitEvent("account-unlocked", true, { email, reason: "manual" });
+    }
+
+    return true;
+  }
+
+  /**
+   * Create a flow simulation
+   */
+  createFlowSimulation(name: string, description: string): FlowSimulation {
+    const simulation: FlowSimulation = {
+      id: generateId(this.clock, this.random),
+      name,
+      description,
+      steps: [],
+      currentStepIndex: 0,
+      status: "not-started",
+      createdAt: this.clock.now(),
+    };
+
+    return simulation;
+  }
+
+  /**
+   * Look up a user by id without copying the state
+   */
+  getUser(userId: string): User | undefined {
+    return this.findUserById(userId);
+  }
+
+  /**
+   * Get current simulator state
+   * This is a shallow copy whose records are shared with the live state; use snapshot() for a copy
+   */
+  getState(): SimulatorState {
+    return {
+      ...this.state,
+      users: this.storage.getUsers(),
+      sessions: this.storage.getSessions(),
+      events: this.storage.getEvents(),
+      resetTokens: this.storage.getResetTokens(),
+      refreshTokens: this.storage.getRefreshTokens(),
+      signingKeys: this.keyRing.getKeys().map(exportSigningKey),
+    };
+  }
+
+  /**
+   * Take a deep copy of the current state that later changes don't affect
+   */
+  snapshot(): SimulatorState {
+    return cloneState(this.getState());
+  }
+
+  /**
+   * Replace the current state with a copy of a snapshot
+   * Event listeners, options and the clock are kept. Config options the snapshot lacks fall back
+   * to their defaults, and the key ring is replaced by the snapshot's keys.
+   */
+  restore(snapshot: SimulatorState): void {
+    const { users, sessions, events, resetTokens, refreshTokens, signingKeys, ...state } =
+      cloneState(snapshot);
+    this.state = { ...state, config: { ...DEFAULT_CONFIG, ...state.config } };
+    this.storage.load({ users, sessions, events, resetTokens, refreshTokens });
+    this.keyRing.load((signingKeys ?? []).map(importSigningKey), this.state.config.jwtAlgorithm);
+    this.log("Simulator state restored");
+  }
+
+  /**
+   * Serialise the current state as versioned JSON, e.g. to save it as a fixture
+   */
+  serializeState(): string {
+    return serializeState(this.getState());
+  }
+
+  /**
+   * Restore state saved by serializeState(), migrating fixtures written by older versions
+   */
+  loadState(serialized: string): void {
+    this.restore(deserializeState(serialized));
+  }
+
+  /**
+   * Get the clock the simulator reads time from
+   */
+  getClock(): Clock {
+    return this.clock;
+  }
+
+  /**
+   * Get all events
+   */
+  getEvents(): AuthEvent[] {
+    return this.storage.getEvents();
+  }
+
+  /**
+   * Subscribe to events of a type, or all events with "*"
+   * Handlers run synchronously as events are emitted. Returns a function that unsubscribes.
+   */
+  on(type: AuthEventListenerType, handler: AuthEventHandler): () => void {
+    return this.addListener(type, handler, false);
+  }
+
+  /**
+   * Subscribe to the next event of a type, or the next event of any type with "*"
+   */
+  once(type: AuthEventListenerType, handler: AuthEventHandler): () => void {
+    return this.addListener(type, handler, true);
+  }
+
+  /**
+   * Remove a handler added with `on` or `once`
+   */
+  off(type: AuthEventListenerType, handler: AuthEventHandler): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) {
+      return;
+    }
+
+    const remaining = listeners.filter((listener) => listener.handler !== handler);
+    if (remaining.length > 0) {
+      this.listeners.set(type, remaining);
+    } else {
+      this.listeners.delete(type);
+    }
+  }
+
+  /**
+   * Iterate over events as they are emitted
+   * Breaking out of a `for await` loop unsubscribes the iterator
+   */
+  eventIterator(type: AuthEventListenerType = "*"): AsyncIterableIterator<AuthEvent> {
+    const queue: AuthEvent[] = [];
+    const waiting: ((result: IteratorResult<AuthEvent>) => void)[] = [];
+    let done = false;
+
+    const handler: AuthEventHandler = (event) => {
+      const resolve = waiting.shift();
+      if (resolve) {
+        resolve({ value: event, done: false });
+      } else {
+        queue.push(event);
+      }
+    };
+    this.on(type, handler);
+
+    return {
+      next: () => {
+        const event = queue.shift();
+        if (event) {
+          return Promise.resolve({ value: event, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: () => {
+        done = true;
+        this.off(type, handler);
+        for (const resolve of waiting.splice(0)) {
+          resolve({ value: undefined, done: true });
+        }
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Clear all data
+   */
+  reset(): void {
+    this.storage.load({
+      users: this.createDefaultUsers(),
+      sessions: [],
+      events: [],
+      resetTokens: [],
+      refreshTokens: [],
+    });
+    this.state.loginAttempts = [];
+    this.state.outbox = [];
+    this.state.oauthStates = [];
+    this.state.twoFactorChallenges = [];
+    this.log("Simulator reset");
+  }
+
+  // Private methods
+
+  private createDefaultUsers(): User[] {
+    return [
+      {
+        ...createMockUser(
+          "john@example.com",
+          "John Doe",
+          true,
+          DEFAULT_MOCK_PASSWORD,
+          this.clock,
+          this.random
+        ),
+        phoneNumber: "+15555550101",
+      },
+      {
+        ...createMockUser(
+          "jane@example.com",
+          "Jane Smith",
+          false,
+          DEFAULT_MOCK_PASSWORD,
+          this.clock,
+          this.random
+        ),
+        phoneNumber: "+15555550102",
+      },
+      {
+        ...createMockUser(
+          "admin@example.com",
+          "Admin User",
+          true,
+          DEFAULT_MOCK_PASSWORD,
+          this.clock,
+          this.random
+        ),
+        phoneNumber: "+15555550103",
+      },
+    ];
+  }
+
+  private prepareMockUser({ password, ...user }: MockUser): User {
+    if (user.passwordHash) {
+      return user;
+    }
+
+    return { ...user, passwordHash: hashPassword(password ?? DEFAULT_MOCK_PASSWORD, this.random) };
+  }
+
+  private findUserByEmail(email: string): User | undefined {
+    return this.storage.findUserByEmail(email);
+  }
+
+  private findUserById(id: string): User | undefined {
+    return this.storage.findUserById(id);
+  }
+
+  private checkResetToken(resetToken: PasswordResetToken | undefined): AuthResult | undefined {
+    if (!resetToken) {
+      return { success: false, error: "Invalid reset token", errorCode: "invalid-reset-token" };
+    }
+
+    if (resetToken.usedAt) {
+      return { success: false, error: "Reset token already used", errorCode: "reset-token-used" };
+    }
+
+    if (resetToken.supersededAt) {
+      return {
+        success: false,
+        error: "A newer reset token has been issued",
+        errorCode: "reset-token-superseded",
+      };
+    }
+
+    if (resetToken.expiresAt <= this.clock.now()) {
+      return { success: false, error: "Reset token expired", errorCode: "reset-token-expired" };
+    }
+
+    return undefined;
+  }
+
+  private getAttemptKeys(credentials: LoginCredentials): string[] {
+    const keys = [`account:${credentials.email}`];
+    if (this.state.config.trackFailuresByIp && credentials.ipAddress) {
+      keys.push(`ip:${credentials.ipAddress}`);
+    }
+    return keys;
+  }
+
+  private findActiveLockout(keys: string[]): LoginAttemptRecord | undefined {
+    const now = this.clock.now();
+
+    for (const key of keys) {
+      const record = this.state.loginAttempts.find((r) => r.key === key);
+      if (!record?.lockedUntil) {
+        continue;
+      }
+
+      if (record.lockedUntil > now) {
+        return record;
+      }
+
+      // Lockout window elapsed, start counting from scratch
+      this.state.loginAttempts = this.state.loginAttempts.filter((r) => r !== record);
+      this.emitEvent("account-unlocked", true, {
+        key: record.key,
+        scope: record.scope,
+        reason: "expired",
+      });
+    }
+
+    return undefined;
+  }
+
+  private recordLoginFailure(keys: string[]): AuthResult | undefined {
+    const now = this.clock.now();
+    let lockout: LoginAttemptRecord | undefined;
+
+    for (const key of keys) {
+      let record = this.state.loginAttempts.find((r) => r.key === key);
+      if (!record) {
+        record = {
+          key,
+          scope: key.startsWith("ip:") ? "ip" : "account",
+          failures: 0,
+          lastFailureAt: now,
+        };
+        this.state.loginAttempts.push(record);
+      }
+
+      record.failures += 1;
+      record.lastFailureAt = now;
+
+      if (record.failures >= this.state.config.maxLoginAttempts) {
+        record.lockedUntil = new Date(
+          now.getTime() + this.state.config.lockoutDuration * 60 * 1000
+        );
+        this.emitEvent("account-locked", false, {
+          key: record.key,
+          scope: record.scope,
+          failures: record.failures,
+          lockedUntil: record.lockedUntil,
+        });
+        lockout = lockout ?? record;
+      }
+    }
+
+    return lockout ? this.createLockedResult(lockout) : undefined;
+  }
+
+  private clearLoginFailures(keys: string[]): void {
+    this.state.loginAttempts = this.state.loginAttempts.filter((r) => !keys.includes(r.key));
+  }
+
+  private createLockedResult(record: LoginAttemptRecord): AuthResult {
+    const now = this.clock.now();
+    const lockedUntil = record.lockedUntil ?? now;
+    return {
+      success: false,
+      error: "Too many failed login attempts",
+      errorCode: "account-locked",
+      accountLocked: true,
+      lockedUntil,
+      retryAfter: Math.max(0, Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000)),
+    };
+  }
+
+  private async validatePassword(user: User, password: string): Promise<boolean> {
+    if (this.options.passwordMode === "permissive") {
+      return password.length >= 6;
+    }
+
+    // Users without a stored password (e.g. OAuth-only accounts) can't log in with one
+    return user.passwordHash ? verifyPassword(password, user.passwordHash) : false;
+  }
+
+  private async validate2FACode(
+    user: User,
+    code: TwoFactorCode
+  ): Promise<"valid" | "invalid" | "reused" | "expired"> {
+    if (code.method === "sms" || code.method === "email") {
+      return this.verifyOutboxCode(user, code.method, code.code);
+    }
+
+    if (!user.totpSecret || !user.totpEnrolledAt) {
+      // Without an enrolled authenticator only permissive mode takes a code on trust
+      return this.options.twoFactorMode === "permissive" && /^\d{6}$/.test(code.code)
+        ? "valid"
+        : "invalid";
+    }
+
+    const counter = verifyTOTP(user.totpSecret, code.code, this.clock.now(), this.getTOTPOptions());
+    if (counter === undefined) {
+      return "invalid";
+    }
+
+    if (user.totpLastUsedStep !== undefined && counter <= user.totpLastUsedStep) {
+      return "reused";
+    }
+
+    user.totpLastUsedStep = counter;
+    this.storage.saveUser(user);
+    return "valid";
+  }
+
+  private findLatestOutboxMessage(
+    userId: string,
+    channel: OTPDeliveryChannel
+  ): OutboxMessage | undefined {
+    return this.getOutbox({ userId, channel }).pop();
+  }
+
+  private verifyOutboxCode(
+    user: User,
+    channel: OTPDeliveryChannel,
+    code: string
+  ): "valid" | "invalid" | "reused" | "expired" {
+    // Only the most recently sent code is accepted
+    const message = this.findLatestOutboxMessage(user.id, channel);
+    if (!message || message.code !== code) {
+      return "invalid";
+    }
+
+    if (message.usedAt) {
+      return "reused";
+    }
+
+    const now = this.clock.now();
+    if (message.expiresAt <= now) {
+      return "expired";
+    }
+
+    message.usedAt = now;
+    return "valid";
+  }
+
+  private getTOTPOptions(): TOTPOptions {
+    return {
+      step: this.state.config.totpStep,
+      digits: this.state.config.totpDigits,
+      skew: this.state.config.totpSkew,
+    };
+  }
+
+  private getSessionLifetime(rememberMe: boolean = false): number {
+    return rememberMe
+      ? this.state.config.rememberMeDuration * 24 * 60 * 60 * 1000
+      : this.state.config.sessionTimeout * 60 * 1000;
+  }
+
+  /**
+   * Remember a login waiting for its 2FA code, replacing the user's earlier one
+   */
+  private startTwoFactorChallenge(user: User, rememberMe: boolean): void {
+    const challenge: TwoFactorChallenge = {
+      userId: user.id,
+      rememberMe,
+      createdAt: this.clock.now(),
+    };
+    this.state.twoFactorChallenges = [
+      ...this.state.twoFactorChallenges.filter((c) => c.userId !== user.id),
+      challenge,
+    ];
+  }
+
+  /**
+   * Remove and return the user's pending 2FA challenge, if they logged in first
+   */
+  private takeTwoFactorChallenge(userId: string): TwoFactorChallenge | undefined {
+    const challenge = this.state.twoFactorChallenges.find((c) => c.userId === userId);
+    this.state.twoFactorChallenges = this.state.twoFactorChallenges.filter((c) => c !== challenge);
+    return challenge;
+  }
+
+  private async createSession(
+    user: User,
+    rememberMe: boolean = false,
+    id: string = generateId(this.clock, this.random)
+  ): Promise<AuthSession> {
+    const now = this.clock.now();
+    const session: AuthSession = {
+      id,
+      userId: user.id,
+      token: "",
+      expiresAt: new Date(now.getTime() + this.getSessionLifetime(rememberMe)),
+      createdAt: now,
+      lastActivityAt: now,
+      rememberMe,
+      deviceInfo: {
+        userAgent: "AuthFlowSimulator/1.0.0",
+        ipAddress: "127.0.0.1",
+        deviceType: "desktop",
+      },
+    };
+    session.refreshToken = this.issueRefreshToken(session);
+    session.token = this.createSessionToken(user, session);
+
+    this.storage.saveSession(session);
+    this.emitEvent("session-created", true, { userId: user.id, sessionId: session.id });
+
+    return session;
+  }
+
+  private createSessionToken(user: User, session: AuthSession): string {
+    return this.state.config.tokenFormat === "jwt"
+      ? this.createAccessToken(user, session)
+      : generateId(this.clock, this.random);
+  }
+
+  /**
+   * Store a new refresh token in the session's token family
+   */
+  private issueRefreshToken(session: AuthSession): string {
+    const now = this.clock.now();
+    const rememberMe = session.rememberMe ?? false;
+    const record: RefreshTokenRecord = {
+      token: generateId(this.clock, this.random),
+      familyId: session.id,
+      userId: session.userId,
+      rememberMe,
+      createdAt: now,
+      expiresAt: new Date(
+        now.getTime() + this.state.config.refreshTokenExpiry * 24 * 60 * 60 * 1000
+      ),
+    };
+
+    this.storage.saveRefreshToken(record);
+    return record.token;
+  }
+
+  private revokeRefreshFamily(familyId: string): void {
+    const now = this.clock.now();
+    for (const record of this.storage.findRefreshTokensByFamily(familyId)) {
+      if (!record.revokedAt) {
+        record.revokedAt = now;
+        this.storage.saveRefreshToken(record);
+      }
+    }
+  }
+
+  private createAccessToken(user: User, session: AuthSession): string {
+    const { jwtIssuer, jwtAudience } = this.state.config;
+
+    return signJwt(
+      {
+        ...this.options.tokenClaims?.(user, session),
+        iss: jwtIssuer,
+        sub: user.id,
+        aud: jwtAudience,
+        iat: Math.floor(this.clock.now().getTime() / 1000),
+        exp: Math.floor(session.expiresAt.getTime() / 1000),
+        jti: generateId(this.clock, this.random),
+        sid: session.id,
+      },
+      this.keyRing.getActiveKey()
+    );
+  }
+
+  /**
+   * Check a callback against its pending request, consuming the state once it is matched
+   */
+  private consumeOAuthState(
+    callback: OAuthCallback
+  ): { record: OAuthStateRecord } | { rejection: AuthResult } {
+    const reject = (error: string, errorCode: AuthErrorCode) => ({
+      rejection: this.rejectOAuthCallback(callback, error, errorCode),
+    });
+
+    if (!callback.state) {
+      return reject("Missing OAuth state", "oauth-state-missing");
+    }
+
+    const record = this.state.oauthStates.find((r) => r.state === callback.state);
+    if (!record || record.provider.toLowerCase() !== callback.provider.toLowerCase()) {
+      return reject("OAuth state mismatch", "oauth-state-mismatch");
+    }
+
+    if (record.usedAt) {
+      return reject("OAuth state already used", "oauth-state-reused");
+    }
+
+    if (this.clock.now() > record.expiresAt) {
+      return reject("OAuth state expired", "oauth-state-expired");
+    }
+
+    record.usedAt = this.clock.now();
+    return { record };
+  }
+
+  /**
+   * Forget OAuth states past their expiry; used ones are kept until then so a replay still reports
+   * oauth-state-reused rather than a mismatch
+   */
+  private pruneOAuthStates(now: Date): void {
+    this.state.oauthStates = this.state.oauthStates.filter((r) => r.expiresAt >= now);
+  }
+
+  /**
+   * Check the PKCE verifier sent when exchanging the code against the challenge it was issued for
+   */
+  private checkCodeVerifier(
+    callback: OAuthCallback,
+    record: OAuthStateRecord
+  ): AuthResult | undefined {
+    if (record.codeChallenge === undefined) {
+      return undefined;
+    }
+
+    if (!callback.codeVerifier) {
+      return this.rejectOAuthCallback(
+        callback,
+        "Missing PKCE code verifier",
+        "invalid-code-verifier"
+      );
+    }
+    if (createCodeChallenge(callback.codeVerifier) !== record.codeChallenge) {
+      return this.rejectOAuthCallback(
+        callback,
+        "PKCE code verifier does not match",
+        "invalid-code-verifier"
+      );
+    }
+
+    return undefined;
+  }
+
+  private rejectOAuthCallback(
+    callback: OAuthCallback,
+    error: string,
+    errorCode: AuthErrorCode,
+    data: Record<string, unknown> = {}
+  ): AuthResult {
+    this.emitEvent(
+      "oauth-callback",
+      false,
+      { provider: callback.provider, errorCode, ...data },
+      error
+    );
+    return { success: false, error, errorCode };
+  }
+
+  private getOAuthProvider(name: string): OAuthProvider {
+    return this.oauthProviders.get(name.toLowerCase()) ?? createGenericProvider(name);
+  }
+
+  /**
+   * Consume the callback's state and build the profile of the provider account that signed in
+   */
+  private readOAuthProfile(
+    callback: OAuthCallback
+  ): { profile: OAuthProfile } | { rejection: AuthResult } {
+    const checked = this.consumeOAuthState(callback);
+    if ("rejection" in checked) {
+      return checked;
+    }
+
+    const outcome = callback.outcome ?? this.takeScriptedOutcome(callback.provider);
+    const providerError = (error: OAuthProviderError) => {
+      const { errorCode, message } = describeOAuthError(error);
+      return {
+        rejection: this.rejectOAuthCallback(
+          callback,
+          outcome?.errorDescription ?? message,
+          errorCode,
+          { providerError: error }
+        ),
+      };
+    };
+
+    // The provider redirects back with the error instead of a code
+    if (outcome?.error && outcome.error !== "expired_code") {
+      return providerError(outcome.error);
+    }
+
+    // Exchanging the code checks the PKCE verifier, then fails if the code has expired
+    const verifierRejection = this.checkCodeVerifier(callback, checked.record);
+    if (verifierRejection) {
+      return { rejection: verifierRejection };
+    }
+    if (outcome?.error === "expired_code") {
+      return providerError(outcome.error);
+    }
+
+    const granted = outcome?.grantedScopes;
+    const scopes = granted
+      ? checked.record.scopes.filter((scope) => granted.includes(scope))
+      : checked.record.scopes;
+
+    const provider = this.getOAuthProvider(callback.provider);
+    const account = findOAuthAccount(provider, callback.accountId);
+    if (!account) {
+      return {
+        rejection: this.rejectOAuthCallback(
+          callback,
+          `No ${provider.name} account ${callback.accountId ?? ""}`.trim(),
+          "oauth-account-not-found"
+        ),
+      };
+    }
+
+    return { profile: buildOAuthProfile(provider, account, scopes) };
+  }
+
+  private takeScriptedOutcome(provider: string): OAuthOutcome | undefined {
+    const scripted = this.oauthOutcomes.get(provider.toLowerCase());
+    if (!scripted) {
+      return undefined;
+    }
+
+    scripted.remaining -= 1;
+    if (scripted.remaining <= 0) {
+      this.oauthOutcomes.delete(provider.toLowerCase());
+    }
+    return scripted.outcome;
+  }
+
+  /**
+   * Find the user an OAuth login belongs to, applying oauthLinkPolicy when only the email matches
+   * Accounts seen for the first time become new users without a password.
+   */
+  private resolveOAuthUser(
+    callback: OAuthCallback,
+    profile: OAuthProfile
+  ): { user: User } | { rejection: AuthResult } {
+    const linked = this.findUserByIdentity(profile.provider, profile.subject);
+    if (linked) {
+      return { user: linked };
+    }
+
+    const existing = profile.email !== undefined ? this.findUserByEmail(profile.email) : undefined;
+    if (!existing) {
+      return { user: this.createOAuthUser(profile) };
+    }
+
+    const policy = this.state.config.oauthLinkPolicy;
+    const details = {
+      userId: existing.id,
+      provider: profile.provider,
+      subject: profile.subject,
+      policy,
+    };
+
+    if (policy === "reject") {
+      const error = "An account with this email already exists";
+      this.emitEvent("identity-link-rejected", false, details, error);
+      return { rejection: this.rejectOAuthCallback(callback, error, "oauth-account-exists") };
+    }
+
+    // An unverified email proves nothing about who owns the existing account
+    if (policy === "auto-link" && profile.emailVerified) {
+      this.linkIdentity(existing, profile, "auto");
+      return { user: existing };
+    }
+
+    const error = `Log in to link this ${profile.provider} account to your existing account`;
+    this.emitEvent("identity-link-required", false, {
+      ...details,
+      emailVerified: profile.emailVerified,
+    });
+    return { rejection: this.rejectOAuthCallback(callback, error, "identity-link-required") };
+  }
+
+  private createOAuthUser(profile: OAuthProfile): User {
+    // Without the email scope the account is only known by its provider subject
+    const email = profile.email ?? `oauth-${profile.provider}-${profile.subject}@example.com`;
+    const user: User = {
+      ...createMockUser(
+        email,
+        profile.name ?? `${profile.provider} User`,
+        false,
+        undefined,
+        this.clock,
+        this.random
+      ),
+      emailVerified: profile.emailVerified,
+      identities: [this.toIdentity(profile)],
+    };
+    this.storage.saveUser(user);
+
+    return user;
+  }
+
+  private linkIdentity(user: User, profile: OAuthProfile, method: "auto" | "explicit"): void {
+    user.identities = [...(user.identities ?? []), this.toIdentity(profile)];
+    this.storage.saveUser(user);
+    this.emitEvent("identity-linked", true, {
+      userId: user.id,
+      provider: profile.provider,
+      subject: profile.subject,
+      method,
+    });
+  }
+
+  private toIdentity(profile: OAuthProfile): LinkedIdentity {
+    return {
+      provider: profile.provider,
+      subject: profile.subject,
+      ...(profile.email !== undefined && { email: profile.email }),
+      linkedAt: this.clock.now(),
+    };
+  }
+
+  private findUserByIdentity(provider: string, subject: string): User | undefined {
+    return this.storage.findUserByIdentity(provider, subject);
+  }
+
   private emitEvent(
     type: AuthEventType,
     success: boolean,
@@ -362,14 +1779,56 @@ export class AuthFlowSimulator {
   ): void {
     const event: AuthEvent = {
       type,
-      timestamp: new Date(),
+      timestamp: this.clock.now(),
       success,
       data: data || {},
       ...(error && { error }),
     };
 
-    this.state.events.push(event);
+    this.storage.addEvent(event);
     this.log(`Event: ${type} - ${success ? "SUCCESS" : "FAILURE"}`, data);
+    this.notifyListeners(event);
+  }
+
+  private addListener(
+    type: AuthEventListenerType,
+    handler: AuthEventHandler,
+    once: boolean
+  ): () => void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), { handler, once }]);
+    return () => this.off(type, handler);
+  }
+
+  private notifyListeners(event: AuthEvent): void {
+    for (const type of [event.type, "*"] as const) {
+      const listeners = this.listeners.get(type);
+      if (!listeners) {
+        continue;
+      }
+
+      for (const listener of listeners) {
+        if (listener.once) {
+          this.off(type, listener.handler);
+        }
+
+        try {
+          listener.handler(event);
+        } catch (error) {
+          // A failing listener shouldn't break the flow that emitted the event
+          this.log(`Event listener for ${type} threw`, error);
+        }
+      }
+    }
+  }
+
+  private featureDisabled(
+    feature: keyof Pick<AuthFlowConfig, "enable2FA" | "enablePasswordReset" | "enableOAuth">,
+    eventType: AuthEventType,
+    data: Record<string, unknown>
+  ): AuthResult {
+    const error = `Feature disabled: ${feature}`;
+    this.emitEvent(eventType, false, { ...data, feature }, error);
+    return { success: false, error, errorCode: "feature-disabled" };
   }
 
   private async delay(): Promise<void> {
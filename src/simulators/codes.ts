@@ -0,0 +1,79 @@
+import type { AuthErrorCode, AuthEventType } from "../types/index";
+
+// Keyed records, so a value added to the union but not listed here fails to compile
+const EVENT_TYPES: Record<AuthEventType, true> = {
+  "login-attempt": true,
+  "login-success": true,
+  "login-failure": true,
+  "2fa-required": true,
+  "2fa-success": true,
+  "2fa-failure": true,
+  "2fa-enrolled": true,
+  "2fa-code-sent": true,
+  "password-reset-requested": true,
+  "password-reset-completed": true,
+  "oauth-initiated": true,
+  "oauth-callback": true,
+  "session-created": true,
+  "session-expired": true,
+  logout: true,
+  "account-locked": true,
+  "account-unlocked": true,
+  "token-refreshed": true,
+  "refresh-token-reused": true,
+  "identity-linked": true,
+  "identity-link-required": true,
+  "identity-link-rejected": true,
+  "identity-unlinked": true,
+};
+
+const ERROR_CODES: Record<AuthErrorCode, true> = {
+  "invalid-credentials": true,
+  "account-locked": true,
+  "two-factor-required": true,
+  "invalid-2fa-code": true,
+  "2fa-code-reused": true,
+  "2fa-not-enrolled": true,
+  "2fa-code-expired": true,
+  "2fa-resend-throttled": true,
+  "2fa-no-recipient": true,
+  "user-not-found": true,
+  "session-not-found": true,
+  "session-expired": true,
+  "invalid-reset-token": true,
+  "reset-token-expired": true,
+  "reset-token-used": true,
+  "reset-token-superseded": true,
+  "weak-password": true,
+  "invalid-refresh-token": true,
+  "refresh-token-expired": true,
+  "refresh-token-revoked": true,
+  "refresh-token-reused": true,
+  "oauth-state-missing": true,
+  "oauth-state-mismatch": true,
+  "oauth-state-expired": true,
+  "oauth-state-reused": true,
+  "invalid-code-verifier": true,
+  "oauth-account-not-found": true,
+  "identity-link-required": true,
+  "oauth-account-exists": true,
+  "identity-already-linked": true,
+  "identity-not-found": true,
+  "last-login-method": true,
+  "oauth-access-denied": true,
+  "oauth-invalid-scope": true,
+  "oauth-server-error": true,
+  "oauth-temporarily-unavailable": true,
+  "oauth-code-expired": true,
+  "feature-disabled": true,
+};
+
+/**
+ * Every AuthEventType the simulator emits
+ */
+export const AUTH_EVENT_TYPES = Object.keys(EVENT_TYPES) as AuthEventType[];
+
+/**
+ * Every AuthErrorCode a failed AuthResult can carry
+ */
+export const AUTH_ERROR_CODES = Object.keys(ERROR_CODES) as AuthErrorCode[];
@@ -0,0 +1,29 @@
+import type { AuthFlowConfig } from "../types/index";
+
+/**
+ * Configuration used for every option a simulator or restored snapshot leaves out
+ */
+export const DEFAULT_CONFIG: Readonly<AuthFlowConfig> = {
+  enable2FA: true,
+  enablePasswordReset: true,
+  enableOAuth: true,
+  sessionTimeout: 30,
+  rememberMeDuration: 30,
+  sessionExpiryMode: "absolute",
+  maxLoginAttempts: 5,
+  lockoutDuration: 15,
+  trackFailuresByIp: false,
+  totpStep: 30,
+  totpDigits: 6,
+  totpSkew: 1,
+  otpCodeExpiry: 5,
+  otpResendInterval: 30,
+  passwordResetTokenExpiry: 60,
+  refreshTokenExpiry: 30,
+  oauthStateExpiry: 10,
+  oauthLinkPolicy: "require-confirmation",
+  tokenFormat: "opaque",
+  jwtAlgorithm: "RS256",
+  jwtIssuer: "auth-flow-simulator",
+  jwtAudience: "auth-flow-simulator",
+};
@@ -3,3 +3,5 @@
  */
 
 export { AuthFlowSimulator } from "./AuthFlowSimulator";
+export { DEFAULT_CONFIG } from "./defaults";
+export { AUTH_ERROR_CODES, AUTH_EVENT_TYPES } from "./codes";
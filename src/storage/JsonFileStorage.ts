@@ -0,0 +1,156 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import type {
+  AuthEvent,
+  AuthSession,
+  JsonFileStorageOptions,
+  PasswordResetToken,
+  RefreshTokenRecord,
+  StorageData,
+  User,
+} from "../types/index";
+import {
+  reviveEvent,
+  reviveRefreshToken,
+  reviveResetToken,
+  reviveSession,
+  reviveUser,
+} from "../utils/snapshot";
+import { MemoryStorage } from "./MemoryStorage";
+
+/**
+ * Version of the storage file format
+ */
+export const STORAGE_FILE_VERSION = 1;
+
+/**
+ * Storage kept in memory and written to a JSON file shortly after it changes
+ * Lets a long-running dev server keep its accounts and sessions across restarts.
+ * Changes made within `writeDelayMs` of each other are written together; call flush() (or stop
+ * the simulator) before exiting to write pending changes immediately. The file is replaced
+ * atomically, so a crash mid-write leaves the previous contents.
+ */
+export class JsonFileStorage extends MemoryStorage {
+  private loading = false;
+  private writeDelayMs: number;
+  private writeTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private path: string,
+    options: JsonFileStorageOptions = {}
+  ) {
+    super();
+    this.writeDelayMs = options.writeDelayMs ?? 100;
+
+    if (existsSync(path)) {
+      this.loading = true;
+      super.load(readStorageFile(path));
+      this.loading = false;
+    }
+  }
+
+  /**
+   * Get the path of the backing file
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  override saveUser(user: User): void {
+    super.saveUser(user);
+    this.persist();
+  }
+
+  override saveSession(session: AuthSession): void {
+    super.saveSession(session);
+    this.persist();
+  }
+
+  override deleteSession(id: string): void {
+    super.deleteSession(id);
+    this.persist();
+  }
+
+  override saveResetToken(resetToken: PasswordResetToken): void {
+    super.saveResetToken(resetToken);
+    this.persist();
+  }
+
+  override saveRefreshToken(record: RefreshTokenRecord): void {
+    super.saveRefreshToken(record);
+    this.persist();
+  }
+
+  override addEvent(event: AuthEvent): void {
+    super.addEvent(event);
+    this.persist();
+  }
+
+  override load(data: StorageData): void {
+    this.loading = true;
+    super.load(data);
+    this.loading = false;
+    this.persist();
+  }
+
+  /**
+   * Write pending changes to the file now
+   */
+  flush(): void {
+    if (this.writeTimer === undefined) {
+      return;
+    }
+
+    clearTimeout(this.writeTimer);
+    this.writeTimer = undefined;
+    this.write();
+  }
+
+  private persist(): void {
+    if (this.loading) {
+      return;
+    }
+
+    if (this.writeDelayMs === 0) {
+      this.write();
+    } else if (this.writeTimer === undefined) {
+      this.writeTimer = setTimeout(() => this.flush(), this.writeDelayMs);
+    }
+  }
+
+  private write(): void {
+    const contents = JSON.stringify(
+      {
+        version: STORAGE_FILE_VERSION,
+        users: this.getUsers(),
+        sessions: this.getSessions(),
+        resetTokens: this.getResetTokens(),
+        refreshTokens: this.getRefreshTokens(),
+        events: this.getEvents(),
+      },
+      null,
+      2
+    );
+
+    const temporaryPath = `${this.path}.tmp`;
+    writeFileSync(temporaryPath, contents, "utf8");
+    renameSync(temporaryPath, this.path);
+  }
+}
+
+function readStorageFile(path: string): StorageData {
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as Partial<StorageData> & {
+    version?: number;
+  };
+
+  if (parsed.version !== STORAGE_FILE_VERSION) {
+    throw new Error(`Unsupported storage file version in ${path}: ${String(parsed.version)}`);
+  }
+
+  return {
+    users: (parsed.users ?? []).map(reviveUser),
+    sessions: (parsed.sessions ?? []).map(reviveSession),
+    resetTokens: (parsed.resetTokens ?? []).map(reviveResetToken),
+    refreshTokens: (parsed.refreshTokens ?? []).map(reviveRefreshToken),
+    events: (parsed.events ?? []).map(reviveEvent),
+  };
+}
@@ -0,0 +1,179 @@
+import type {
+  AuthEvent,
+  AuthSession,
+  PasswordResetToken,
+  RefreshTokenRecord,
+  StorageAdapter,
+  StorageData,
+  User,
+} from "../types/index";
+
+/**
+ * In-memory storage, the simulator's default
+ * Records are indexed by id, email, linked identity, token and user id so lookups don't scan every
+ * record.
+ */
+export class MemoryStorage implements StorageAdapter {
+  private users = new Map<string, User>();
+  private userIdsByEmail = new Map<string, string>();
+  private userIdsByIdentity = new Map<string, string>();
+  // Users are live objects, so the keys a user was indexed under can't be read back from it
+  private identityKeysByUserId = new Map<string, string[]>();
+  private sessions = new Map<string, AuthSession>();
+  private sessionIdsByUserId = new Map<string, Set<string>>();
+  private resetTokens = new Map<string, PasswordResetToken>();
+  private tokensByUserId = new Map<string, Set<string>>();
+  private refreshTokens = new Map<string, RefreshTokenRecord>();
+  private refreshTokensByFamily = new Map<string, Set<string>>();
+  private events: AuthEvent[] = [];
+
+  constructor(data?: Partial<StorageData>) {
+    if (data) {
+      this.load({
+        users: [],
+        sessions: [],
+        resetTokens: [],
+        refreshTokens: [],
+        events: [],
+        ...data,
+      });
+    }
+  }
+
+  getUsers(): User[] {
+    return [...this.users.values()];
+  }
+
+  findUserById(id: string): User | undefined {
+    return this.users.get(id);
+  }
+
+  findUserByEmail(email: string): User | undefined {
+    const id = this.userIdsByEmail.get(email);
+    return id !== undefined ? this.users.get(id) : undefined;
+  }
+
+  findUserByIdentity(provider: string, subject: string): User | undefined {
+    const id = this.userIdsByIdentity.get(identityKey(provider, subject));
+    return id !== undefined ? this.users.get(id) : undefined;
+  }
+
+  saveUser(user: User): void {
+    const previous = this.users.get(user.id);
+    if (previous && previous.email !== user.email) {
+      this.userIdsByEmail.delete(previous.email);
+    }
+
+    this.users.set(user.id, user);
+    this.userIdsByEmail.set(user.email, user.id);
+
+    this.identityKeysByUserId.get(user.id)?.forEach((key) => this.userIdsByIdentity.delete(key));
+    const keys = (user.identities ?? []).map((i) => identityKey(i.provider, i.subject));
+    keys.forEach((key) => this.userIdsByIdentity.set(key, user.id));
+    this.identityKeysByUserId.set(user.id, keys);
+  }
+
+  getSessions(): AuthSession[] {
+    return [...this.sessions.values()];
+  }
+
+  findSession(id: string): AuthSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  findSessionsByUserId(userId: string): AuthSession[] {
+    return lookup(this.sessionIdsByUserId.get(userId), this.sessions);
+  }
+
+  saveSession(session: AuthSession): void {
+    this.sessions.set(session.id, session);
+    addToIndex(this.sessionIdsByUserId, session.userId, session.id);
+  }
+
+  deleteSession(id: string): void {
+    const session = this.sessions.get(id);
+    if (session) {
+      this.sessions.delete(id);
+      this.sessionIdsByUserId.get(session.userId)?.delete(id);
+    }
+  }
+
+  getResetTokens(): PasswordResetToken[] {
+    return [...this.resetTokens.values()];
+  }
+
+  findResetToken(token: string): PasswordResetToken | undefined {
+    return this.resetTokens.get(token);
+  }
+
+  findResetTokensByUserId(userId: string): PasswordResetToken[] {
+    return lookup(this.tokensByUserId.get(userId), this.resetTokens);
+  }
+
+  saveResetToken(resetToken: PasswordResetToken): void {
+    this.resetTokens.set(resetToken.token, resetToken);
+    addToIndex(this.tokensByUserId, resetToken.userId, resetToken.token);
+  }
+
+  getRefreshTokens(): RefreshTokenRecord[] {
+    return [...this.refreshTokens.values()];
+  }
+
+  findRefreshToken(token: string): RefreshTokenRecord | undefined {
+    return this.refreshTokens.get(token);
+  }
+
+  findRefreshTokensByFamily(familyId: string): RefreshTokenRecord[] {
+    return lookup(this.refreshTokensByFamily.get(familyId), this.refreshTokens);
+  }
+
+  saveRefreshToken(record: RefreshTokenRecord): void {
+    this.refreshTokens.set(record.token, record);
+    addToIndex(this.refreshTokensByFamily, record.familyId, record.token);
+  }
+
+  getEvents(): AuthEvent[] {
+    return [...this.events];
+  }
+
+  addEvent(event: AuthEvent): void {
+    this.events.push(event);
+  }
+
+  load(data: StorageData): void {
+    this.users.clear();
+    this.userIdsByEmail.clear();
+    this.userIdsByIdentity.clear();
+    this.identityKeysByUserId.clear();
+    this.sessions.clear();
+    this.sessionIdsByUserId.clear();
+    this.resetTokens.clear();
+    this.tokensByUserId.clear();
+    this.refreshTokens.clear();
+    this.refreshTokensByFamily.clear();
+    this.events = [...data.events];
+
+    data.users.forEach((user) => this.saveUser(user));
+    data.sessions.forEach((session) => this.saveSession(session));
+    data.resetTokens.forEach((resetToken) => this.saveResetToken(resetToken));
+    data.refreshTokens.forEach((record) => this.saveRefreshToken(record));
+  }
+}
+
+// Provider names are matched case-insensitively, subjects exactly
+function identityKey(provider: string, subject: string): string {
+  return `${provider.toLowerCase()}:${subject}`;
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, value: string): void {
+  const values = index.get(key) ?? new Set<string>();
+  values.add(value);
+  index.set(key, values);
+}
+
+function lookup<T>(keys: Set<string> | undefined, records: Map<string, T>): T[] {
+  return [...(keys ?? [])].flatMap((key) => {
+    const record = records.get(key);
+    return record ? [record] : [];
+  });
+}
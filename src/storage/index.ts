@@ -0,0 +1,7 @@
+/**
+ * Storage module exports
+ */
+
+export { MemoryStorage } from "./MemoryStorage";
+
+// JsonFileStorage uses node:fs and is exported from the "auth-flow-sim/storage/file" subpath
@@ -2,17 +2,36 @@
  * Core types for the Authentication Flow Simulator
  */
 
+import type { JsonWebKey, KeyObject } from "node:crypto";
+
 export interface User {
   id: string;
   email: string;
   name: string;
   avatar?: string;
+  phoneNumber?: string;
   emailVerified: boolean;
   twoFactorEnabled: boolean;
+  passwordHash?: string;
+  totpSecret?: string; // base32
+  totpEnrolledAt?: Date; // set once enrollment is confirmed with a valid code
+  totpLastUsedStep?: number; // guards against replaying a code
+  identities?: LinkedIdentity[]; // OAuth accounts that can log in as this user
   createdAt: Date;
   lastLoginAt?: Date;
 }
 
+export interface LinkedIdentity {
+  provider: string;
+  subject: string; // the provider's account id
+  email?: string;
+  linkedAt: Date;
+}
+
+export interface MockUser extends User {
+  password?: string; // plain text, hashed when the simulator is created
+}
+
 export interface AuthSession {
   id: string;
   userId: string;
@@ -20,6 +39,8 @@ export interface AuthSession {
   refreshToken?: string;
   expiresAt: Date;
   createdAt: Date;
+  lastActivityAt?: Date;
+  rememberMe?: boolean;
   deviceInfo?: DeviceInfo;
 }
 
@@ -36,14 +57,31 @@ export interface AuthFlowConfig {
   enablePasswordReset: boolean;
   enableOAuth: boolean;
   sessionTimeout: number; // in minutes
+  rememberMeDuration: number; // in days
+  sessionExpiryMode: "absolute" | "sliding"; // sliding extends the session on each successful check
   maxLoginAttempts: number;
   lockoutDuration: number; // in minutes
+  totpStep: number; // in seconds
+  totpDigits: number;
+  totpSkew: number; // steps accepted either side of the current one
+  otpCodeExpiry: number; // in minutes, for SMS and email codes
+  otpResendInterval: number; // in seconds between SMS or email codes to the same user
+  passwordResetTokenExpiry: number; // in minutes
+  refreshTokenExpiry: number; // in days
+  oauthStateExpiry: number; // in minutes between initiating OAuth and the callback
+  oauthLinkPolicy: OAuthLinkPolicy; // when an OAuth login's email belongs to an existing user
+  trackFailuresByIp: boolean; // also lock out an IP address after repeated failures
+  tokenFormat: "opaque" | "jwt"; // format of AuthSession.token
+  jwtAlgorithm: JwtAlgorithm;
+  jwtIssuer: string;
+  jwtAudience: string;
 }
 
 export interface LoginCredentials {
   email: string;
   password: string;
   rememberMe?: boolean;
+  ipAddress?: string;
 }
 
 export interface TwoFactorCode {
@@ -51,6 +89,37 @@ export interface TwoFactorCode {
   method: "sms" | "email" | "totp" | "app";
 }
 
+export interface TwoFactorChallenge {
+  userId: string;
+  rememberMe: boolean; // applied to the session created once the code is verified
+  createdAt: Date;
+}
+
+export type OTPDeliveryChannel = "sms" | "email";
+
+export interface OutboxMessage {
+  id: string;
+  userId: string;
+  channel: OTPDeliveryChannel;
+  recipient: string;
+  body: string;
+  code: string;
+  sentAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+}
+
+export interface TOTPOptions {
+  step: number; // in seconds
+  digits: number;
+  skew: number;
+}
+
+export interface TOTPEnrollment {
+  secret: string; // base32
+  uri: string; // otpauth://
+}
+
 export interface PasswordResetRequest {
   email: string;
   redirectUrl?: string;
@@ -61,26 +130,190 @@ export interface PasswordResetConfirm {
   newPassword: string;
 }
 
+export interface PasswordResetToken {
+  token: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+  supersededAt?: Date; // set when a newer token is issued for the same user
+}
+
+export interface RefreshTokenRecord {
+  token: string;
+  familyId: string; // the session the token chain was issued for
+  userId: string;
+  rememberMe: boolean;
+  createdAt: Date;
+  expiresAt: Date;
+  rotatedAt?: Date; // set when exchanged; presenting it again is reuse
+  replacedBy?: string;
+  revokedAt?: Date;
+}
+
 export interface OAuthProvider {
-  name: string;
+  name: string; // matched case-insensitively against OAuthCallback.provider
   clientId: string;
   redirectUri: string;
+  scopes: string[]; // requested by initiateOAuth unless it is given others
+  profileFormat?: OAuthProfileFormat; // defaults to the name for google, github and microsoft
+  authorizationUrl?: string;
+  accounts?: OAuthAccount[]; // the first logs in unless the callback picks another
+}
+
+/**
+ * auto-link: link when the provider verified the email, otherwise ask for confirmation
+ * require-confirmation: fail until the user logs in and links the identity with linkOAuthIdentity
+ * reject: fail, the email belongs to another account
+ */
+export type OAuthLinkPolicy = "auto-link" | "require-confirmation" | "reject";
+
+export type OAuthProfileFormat = "google" | "github" | "microsoft" | "generic";
+
+/**
+ * A fake account at the provider
+ */
+export interface OAuthAccount {
+  id: string; // provider subject
+  email?: string;
+  emailVerified?: boolean; // defaults to true
+  name: string;
+  username?: string; // GitHub login
+  avatarUrl?: string;
+  locale?: string;
+  tenantId?: string; // Microsoft directory
+}
+
+/**
+ * User info as the provider returns it for the granted scopes
+ */
+export interface OAuthProfile {
+  provider: string;
+  subject: string;
+  email?: string; // only with the provider's email scope
+  emailVerified: boolean;
+  name?: string;
   scopes: string[];
+  claims: Record<string, unknown>; // provider-specific shape
 }
 
 export interface OAuthCallback {
   code: string;
   state: string;
   provider: string;
+  codeVerifier?: string; // PKCE verifier from initiateOAuth
+  accountId?: string; // id, username or email of the provider account to log in as
+  outcome?: OAuthOutcome; // what the provider does for this callback, over any scripted outcome
+}
+
+export type OAuthProviderError =
+  | "access_denied"
+  | "invalid_scope"
+  | "server_error"
+  | "temporarily_unavailable"
+  | "expired_code"; // the code exchange fails with invalid_grant
+
+/**
+ * A provider-side result to simulate instead of a successful login
+ */
+export interface OAuthOutcome {
+  error?: OAuthProviderError;
+  errorDescription?: string;
+  grantedScopes?: string[]; // the user only consented to these of the requested scopes
+}
+
+export interface OAuthInitiateOptions {
+  redirectUri?: string;
+  scopes?: string[];
+  pkce?: boolean; // defaults to true
+}
+
+export interface OAuthAuthorizationRequest {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier?: string; // kept by the client, sent with the callback
+  codeChallenge?: string;
+  codeChallengeMethod?: "S256";
+  authorizationUrl: string;
+  expiresAt: Date;
+}
+
+export interface OAuthStateRecord {
+  state: string;
+  provider: string;
+  nonce: string;
+  codeChallenge?: string; // the verifier itself is never stored
+  redirectUri?: string;
+  scopes: string[];
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
 }
 
+export type AuthErrorCode =
+  | "invalid-credentials"
+  | "account-locked"
+  | "two-factor-required"
+  | "invalid-2fa-code"
+  | "2fa-code-reused"
+  | "2fa-not-enrolled"
+  | "2fa-code-expired"
+  | "2fa-resend-throttled"
+  | "2fa-no-recipient"
+  | "user-not-found"
+  | "session-not-found"
+  | "session-expired"
+  | "invalid-reset-token"
+  | "reset-token-expired"
+  | "reset-token-used"
+  | "reset-token-superseded"
+  | "weak-password"
+  | "invalid-refresh-token"
+  | "refresh-token-expired"
+  | "refresh-token-revoked"
+  | "refresh-token-reused"
+  | "oauth-state-missing"
+  | "oauth-state-mismatch"
+  | "oauth-state-expired"
+  | "oauth-state-reused"
+  | "invalid-code-verifier"
+  | "oauth-account-not-found"
+  | "identity-link-required"
+  | "oauth-account-exists"
+  | "identity-already-linked"
+  | "identity-not-found"
+  | "last-login-method"
+  | "oauth-access-denied"
+  | "oauth-invalid-scope"
+  | "oauth-server-error"
+  | "oauth-temporarily-unavailable"
+  | "oauth-code-expired"
+  | "feature-disabled";
+
 export interface AuthResult {
   success: boolean;
   user?: User;
   session?: AuthSession;
   error?: string;
+  errorCode?: AuthErrorCode;
   requires2FA?: boolean;
   requiresPasswordReset?: boolean;
+  accountLocked?: boolean;
+  lockedUntil?: Date;
+  retryAfter?: number; // in seconds
+}
+
+export interface TOTPEnrollmentResult extends AuthResult {
+  enrollment?: TOTPEnrollment;
+}
+
+export interface OAuthInitiateResult extends AuthResult {
+  authorization?: OAuthAuthorizationRequest;
+}
+
+export interface OAuthCallbackResult extends AuthResult {
+  profile?: OAuthProfile;
 }
 
 export interface FlowStep {
@@ -91,6 +324,15 @@ export interface FlowStep {
   status: "pending" | "in-progress" | "completed" | "failed";
   data?: Record<string, unknown>;
   nextSteps?: string[];
+  branches?: Partial<Record<FlowStepOutcome, string>>; // outcome -> step id, each listed in nextSteps
+  maxVisits?: number; // entering the step more often follows the "exhausted" branch
+}
+
+export type FlowStepOutcome = "success" | "failure" | "requires-2fa" | "exhausted";
+
+export interface FlowValidationResult {
+  valid: boolean;
+  errors: string[];
 }
 
 export interface FlowSimulation {
@@ -102,13 +344,75 @@ export interface FlowSimulation {
   status: "not-started" | "in-progress" | "completed" | "failed";
   createdAt: Date;
   completedAt?: Date;
+  failedStepId?: string;
+  error?: string;
+}
+
+export type FlowStepAction =
+  | "login"
+  | "send-2fa-code"
+  | "2fa"
+  | "password-reset-request"
+  | "password-reset-confirm"
+  | "oauth-initiate"
+  | "oauth-callback"
+  | "logout"
+  | "session-check"
+  | "none";
+
+export interface FlowRunInput {
+  credentials?: LoginCredentials;
+  twoFactorCode?: TwoFactorCode; // defaults to the latest outbox code or current TOTP code
+  passwordReset?: {
+    email?: string; // defaults to the credentials or logged-in user's email
+    newPassword: string;
+    redirectUrl?: string;
+  };
+  oauthCallback?: Omit<OAuthCallback, "state"> & { state?: string }; // state and code verifier default to the oauth-initiate step's
+  sessionId?: string; // existing session for flows that start logged in
+}
+
+export interface FlowRunContext {
+  user?: User;
+  session?: AuthSession;
+  pending2FA?: boolean;
+  resetToken?: string;
+  oauth?: OAuthAuthorizationRequest;
+}
+
+export interface FlowStepResult {
+  stepId: string;
+  action: FlowStepAction;
+  status: "completed" | "failed";
+  startedAt: Date;
+  completedAt: Date;
+  durationMs: number;
+  outcome: FlowStepOutcome;
+  nextStepId?: string;
+  result?: AuthResult;
+  error?: string;
+}
+
+export interface Clock {
+  now(): Date;
+}
+
+export interface RandomSource {
+  next(): number; // uniformly distributed in [0, 1)
 }
 
 export interface SimulatorOptions {
   config?: Partial<AuthFlowConfig>;
-  mockUsers?: User[];
+  mockUsers?: MockUser[];
+  passwordMode?: "strict" | "permissive"; // permissive accepts any password of 6+ characters
+  twoFactorMode?: "strict" | "permissive"; // permissive accepts any 6-digit authenticator code from users without TOTP enrollment
   enableLogging?: boolean;
   delayMs?: number; // Simulate network delay
+  clock?: Clock; // Source of time, e.g. a FakeClock for time travel in tests
+  seed?: number | string; // Seeds IDs, codes and tokens for reproducible runs
+  storage?: StorageAdapter; // Where users, sessions, reset tokens and events live, in memory by default
+  oauthProviders?: OAuthProvider[]; // Added to, or replacing by name, the default Google, GitHub and Microsoft providers
+  tokenClaims?: (user: User, session: AuthSession) => Record<string, unknown>; // Custom JWT claims
 }
 
 export type AuthEventType =
@@ -118,13 +422,23 @@ export type AuthEventType =
   | "2fa-required"
   | "2fa-success"
   | "2fa-failure"
+  | "2fa-enrolled"
+  | "2fa-code-sent"
   | "password-reset-requested"
   | "password-reset-completed"
   | "oauth-initiated"
   | "oauth-callback"
   | "session-created"
   | "session-expired"
-  | "logout";
+  | "logout"
+  | "account-locked"
+  | "account-unlocked"
+  | "token-refreshed"
+  | "refresh-token-reused" // security event: the token family has been revoked
+  | "identity-linked"
+  | "identity-link-required"
+  | "identity-link-rejected"
+  | "identity-unlinked";
 
 export interface AuthEvent {
   type: AuthEventType;
@@ -136,10 +450,303 @@ export interface AuthEvent {
   error?: string;
 }
 
+export type AuthEventListenerType = AuthEventType | "*";
+
+export type AuthEventHandler = (event: AuthEvent) => void;
+
+export interface LoginAttemptRecord {
+  key: string;
+  scope: "account" | "ip";
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+}
+
 export interface SimulatorState {
   users: User[];
   sessions: AuthSession[];
   events: AuthEvent[];
+  loginAttempts: LoginAttemptRecord[];
+  outbox: OutboxMessage[];
+  resetTokens: PasswordResetToken[];
+  refreshTokens: RefreshTokenRecord[];
+  oauthStates: OAuthStateRecord[];
+  twoFactorChallenges: TwoFactorChallenge[]; // logins waiting for a 2FA code
+  signingKeys: StoredSigningKey[]; // the JWT key ring, oldest first
   config: AuthFlowConfig;
   isRunning: boolean;
 }
+
+export interface StorageData {
+  users: User[];
+  sessions: AuthSession[];
+  resetTokens: PasswordResetToken[];
+  refreshTokens: RefreshTokenRecord[];
+  events: AuthEvent[];
+}
+
+/**
+ * Storage for users, sessions, reset tokens and events
+ * Returned records may be live objects; the simulator saves a record again after changing it.
+ */
+export interface StorageAdapter {
+  getUsers(): User[];
+  findUserById(id: string): User | undefined;
+  findUserByEmail(email: string): User | undefined;
+  findUserByIdentity(provider: string, subject: string): User | undefined;
+  saveUser(user: User): void;
+
+  getSessions(): AuthSession[];
+  findSession(id: string): AuthSession | undefined;
+  findSessionsByUserId(userId: string): AuthSession[];
+  saveSession(session: AuthSession): void;
+  deleteSession(id: string): void;
+
+  getResetTokens(): PasswordResetToken[];
+  findResetToken(token: string): PasswordResetToken | undefined;
+  findResetTokensByUserId(userId: string): PasswordResetToken[];
+  saveResetToken(resetToken: PasswordResetToken): void;
+
+  getRefreshTokens(): RefreshTokenRecord[];
+  findRefreshToken(token: string): RefreshTokenRecord | undefined;
+  findRefreshTokensByFamily(familyId: string): RefreshTokenRecord[];
+  saveRefreshToken(record: RefreshTokenRecord): void;
+
+  getEvents(): AuthEvent[];
+  addEvent(event: AuthEvent): void;
+
+  load(data: StorageData): void; // replaces everything stored
+  flush?(): void; // writes out pending changes, for adapters that batch them
+}
+
+export interface JsonFileStorageOptions {
+  writeDelayMs?: number; // how long to batch changes before rewriting the file; 0 writes every change
+}
+
+export interface SerializedState {
+  version: number; // STATE_SCHEMA_VERSION when written
+  state: SimulatorState;
+}
+
+export interface ScenarioUser {
+  email: string;
+  name?: string;
+  id?: string;
+  password?: string;
+  phoneNumber?: string;
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+}
+
+export interface ScenarioExpectation {
+  success?: boolean;
+  errorCode?: AuthErrorCode;
+  requires2FA?: boolean;
+  accountLocked?: boolean;
+  events?: AuthEventType[]; // event types the action must emit
+}
+
+export interface ScenarioActionBase {
+  name?: string;
+  expect?: ScenarioExpectation; // defaults to { success: true }
+}
+
+export type ScenarioAction = ScenarioActionBase &
+  (
+    | { type: "login"; credentials: LoginCredentials }
+    | { type: "send-2fa-code"; channel: OTPDeliveryChannel; email?: string }
+    | { type: "2fa"; code?: TwoFactorCode; email?: string } // code defaults to the latest outbox or TOTP code
+    | { type: "password-reset-request"; request: PasswordResetRequest }
+    | { type: "password-reset-confirm"; newPassword: string; token?: string } // token defaults to the latest issued
+    | { type: "oauth-initiate"; provider: string; scopes?: string[] }
+    | { type: "oauth-callback"; callback: Omit<OAuthCallback, "state"> & { state?: string } } // state and code verifier default to the latest initiated
+    | {
+        type: "link-identity";
+        callback: Omit<OAuthCallback, "state"> & { state?: string };
+        email?: string; // user to link to, defaults to the current user
+      }
+    | { type: "unlink-identity"; provider: string; subject?: string; email?: string }
+    | { type: "script-oauth-outcome"; provider: string; outcome: OAuthOutcome; times?: number }
+    | { type: "check-session" }
+    | { type: "logout" }
+    | { type: "refresh-session"; refreshToken?: string } // defaults to the current session's
+    | { type: "advance-time"; minutes?: number; seconds?: number }
+  );
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  seed?: number | string;
+  startTime?: string; // ISO 8601, defaults to now
+  config?: Partial<AuthFlowConfig>;
+  users?: ScenarioUser[]; // defaults to the simulator's default users
+  actions: ScenarioAction[];
+}
+
+export interface ScenarioValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export interface ScenarioActionReport {
+  index: number;
+  type: ScenarioAction["type"];
+  name?: string;
+  passed: boolean;
+  failures: string[];
+  result?: AuthResult;
+}
+
+export interface ScenarioReport {
+  name: string;
+  passed: boolean;
+  actions: ScenarioActionReport[];
+}
+
+export type RecordedMethod =
+  | "start"
+  | "stop"
+  | "simulateLogin"
+  | "simulate2FA"
+  | "send2FACode"
+  | "getOutbox"
+  | "clearOutbox"
+  | "enrollTOTP"
+  | "confirmTOTPEnrollment"
+  | "getCurrentTOTPCode"
+  | "simulatePasswordResetRequest"
+  | "simulatePasswordResetConfirm"
+  | "registerOAuthProvider"
+  | "scriptOAuthOutcome"
+  | "clearOAuthOutcomes"
+  | "initiateOAuth"
+  | "simulateOAuthCallback"
+  | "linkOAuthIdentity"
+  | "unlinkIdentity"
+  | "simulateLogout"
+  | "refreshSession"
+  | "checkSession"
+  | "unlockAccount"
+  | "rotateSigningKey"
+  | "createFlowSimulation"
+  | "loadState"
+  | "reset";
+
+export interface TapeEntry {
+  method: RecordedMethod;
+  args: unknown[];
+  at: string; // ISO 8601 clock time of the call
+  result: unknown; // JSON form of the return value
+  events: unknown[]; // JSON form of the events the call emitted
+}
+
+export interface SimulatorTape {
+  version: 1;
+  seed: number | string;
+  startTime: string; // ISO 8601 clock time the simulator was created at
+  options: Pick<
+    SimulatorOptions,
+    "config" | "mockUsers" | "passwordMode" | "twoFactorMode" | "oauthProviders"
+  >;
+  entries: TapeEntry[];
+}
+
+export interface ReplayEntryReport {
+  index: number;
+  method: RecordedMethod;
+  passed: boolean;
+  differences: string[]; // e.g. "result.session.token: expected "abc", got "def""
+}
+
+export interface ReplayReport {
+  passed: boolean;
+  entries: ReplayEntryReport[];
+}
+
+export interface AuthServerOptions {
+  basePath?: string; // prefix for every route, e.g. "/api/auth"
+  cors?: boolean; // allow requests from any origin, defaults to true
+  maxBodyBytes?: number; // defaults to 1 MB
+}
+
+export type ApiErrorCode =
+  | "invalid-request"
+  | "invalid-json"
+  | "payload-too-large"
+  | "not-found"
+  | "method-not-allowed"
+  | "internal-error";
+
+export interface ApiErrorBody {
+  success: false;
+  error: string;
+  errorCode: ApiErrorCode;
+}
+
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+export interface JwtHeader {
+  alg: JwtAlgorithm;
+  typ: "JWT";
+  kid: string;
+}
+
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number; // seconds since the epoch
+  iat?: number;
+  nbf?: number;
+  jti?: string;
+  sid?: string;
+  [claim: string]: unknown;
+}
+
+export interface SigningKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  privateKey: KeyObject; // the shared secret for HS256
+  publicKey: KeyObject; // the shared secret for HS256
+  createdAt: Date;
+}
+
+/**
+ * A signing key as kept in snapshots, with its private half as a JWK
+ */
+export interface StoredSigningKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  privateJwk: JsonWebKey; // the shared secret for HS256
+  createdAt: Date;
+}
+
+export interface JwtVerifyOptions {
+  issuer?: string;
+  audience?: string;
+  now?: Date; // defaults to the current time
+  clockToleranceSeconds?: number; // defaults to 0
+}
+
+export interface JwtVerifyResult {
+  valid: boolean;
+  header?: JwtHeader;
+  payload?: JwtPayload;
+  error?: string;
+}
+
+export interface OidcClient {
+  clientId: string;
+  clientSecret?: string; // public clients use PKCE instead
+  redirectUris: string[];
+  name?: string; // shown on the consent page
+}
+
+export interface OidcProviderOptions {
+  issuer?: string; // defaults to the URL the provider is served from
+  clients?: OidcClient[]; // any client and redirect URI is accepted when omitted
+  accessTokenTtl?: number; // seconds, defaults to 3600
+  idTokenTtl?: number; // seconds, defaults to 3600
+  authorizationCodeTtl?: number; // seconds, defaults to 60
+  signingKey?: SigningKey; // RS256 or ES256, signs tokens instead of the simulator's KeyRing
+}
@@ -0,0 +1,40 @@
+import type { Clock } from "../types/index";
+
+/**
+ * Clock backed by the system time
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Controllable clock for deterministic tests
+ * Time only moves when `advance` or `set` is called
+ */
+export class FakeClock implements Clock {
+  private current: number;
+
+  constructor(start: Date | number = Date.now()) {
+    this.current = typeof start === "number" ? start : start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  /**
+   * Move the clock forward by the given number of milliseconds
+   */
+  advance(ms: number): Date {
+    this.current += ms;
+    return this.now();
+  }
+
+  /**
+   * Jump the clock to a specific point in time
+   */
+  set(date: Date | number): Date {
+    this.current = typeof date === "number" ? date : date.getTime();
+    return this.now();
+  }
+}
@@ -21,6 +21,8 @@ export function createDevSimulator(): AuthFlowSimulator {
       enablePasswordReset: true,
       enableOAuth: true,
       sessionTimeout: 60, // 1 hour for development
+      rememberMeDuration: 30, // 30 days
+      sessionExpiryMode: "sliding", // Stay logged in while active
       maxLoginAttempts: 10,
       lockoutDuration: 5, // 5 minutes
     },
@@ -39,6 +41,8 @@ export function createProdSimulator(): AuthFlowSimulator {
       enablePasswordReset: true,
       enableOAuth: true,
       sessionTimeout: 30, // 30 minutes
+      rememberMeDuration: 30, // 30 days
+      sessionExpiryMode: "absolute",
       maxLoginAttempts: 5,
       lockoutDuration: 15, // 15 minutes
     },
@@ -57,6 +61,8 @@ export function createTestSimulator(): AuthFlowSimulator {
       enablePasswordReset: true,
       enableOAuth: true,
       sessionTimeout: 5, // 5 minutes for testing
+      rememberMeDuration: 1, // 1 day for testing
+      sessionExpiryMode: "absolute",
       maxLoginAttempts: 3,
       lockoutDuration: 1, // 1 minute for testing
     },
@@ -1,10 +1,13 @@
-import type { User } from "../types/index";
+import type { Clock, RandomSource, User } from "../types/index";
+import { hashPassword } from "./password";
+import { systemClock } from "./clock";
+import { mathRandom, randomInt } from "./random";
 
 /**
  * Generate a unique ID
  */
-export function generateId(): string {
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+export function generateId(clock: Clock = systemClock, random: RandomSource = mathRandom): string {
+  return random.next().toString(36).substring(2) + clock.now().getTime().toString(36);
 }
 
 /**
@@ -20,16 +23,20 @@ export function delay(ms: number): Promise<void> {
 export function createMockUser(
   email: string,
   name: string,
-  twoFactorEnabled: boolean = false
+  twoFactorEnabled: boolean = false,
+  password?: string,
+  clock: Clock = systemClock,
+  random: RandomSource = mathRandom
 ): User {
   return {
-    id: generateId(),
+    id: generateId(clock, random),
     email,
     name,
     avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random`,
     emailVerified: true,
     twoFactorEnabled,
-    createdAt: new Date(),
+    ...(password !== undefined && { passwordHash: hashPassword(password, random) }),
+    createdAt: clock.now(),
   };
 }
 
@@ -43,15 +50,18 @@ export function formatDate(date: Date): string {
 /**
  * Generate a random 6-digit code for 2FA simulation
  */
-export function generate2FACode(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+export function generate2FACode(random: RandomSource = mathRandom): string {
+  return (100000 + randomInt(900000, random)).toString();
 }
 
 /**
  * Generate a random password reset token
  */
-export function generateResetToken(): string {
-  return generateId() + generateId();
+export function generateResetToken(
+  clock: Clock = systemClock,
+  random: RandomSource = mathRandom
+): string {
+  return generateId(clock, random) + generateId(clock, random);
 }
 
 /**
@@ -100,7 +110,7 @@ export function validatePasswordStrength(password: string): {
 /**
  * Generate a random device info for simulation
  */
-export function generateDeviceInfo(): {
+export function generateDeviceInfo(random: RandomSource = mathRandom): {
   userAgent: string;
   ipAddress: string;
   deviceType: "mobile" | "desktop" | "tablet";
@@ -119,11 +129,11 @@ export function generateDeviceInfo(): {
   const deviceTypes: ("mobile" | "desktop" | "tablet")[] = ["desktop", "mobile", "tablet"];
 
   return {
-    userAgent: userAgents[Math.floor(Math.random() * userAgents.length)]!,
-    ipAddress: `192.168.1.${Math.floor(Math.random() * 255)}`,
-    deviceType: deviceTypes[Math.floor(Math.random() * deviceTypes.length)]!,
-    browser: browsers[Math.floor(Math.random() * browsers.length)]!,
-    os: operatingSystems[Math.floor(Math.random() * operatingSystems.length)]!,
+    userAgent: userAgents[randomInt(userAgents.length, random)]!,
+    ipAddress: `192.168.1.${randomInt(255, random)}`,
+    deviceType: deviceTypes[randomInt(deviceTypes.length, random)]!,
+    browser: browsers[randomInt(browsers.length, random)]!,
+    os: operatingSystems[randomInt(operatingSystems.length, random)]!,
   };
 }
 
@@ -160,11 +170,11 @@ export function isEmpty(value: unknown): boolean {
 /**
  * Generate a random string of specified length
  */
-export function randomString(length: number): string {
+export function randomString(length: number, random: RandomSource = mathRandom): string {
   const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
   let result = "";
   for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+    result += chars.charAt(randomInt(chars.length, random));
   }
   return result;
 }
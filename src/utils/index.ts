@@ -3,4 +3,12 @@
  */
 
 export * from "./helpers";
+export * from "./password";
+export * from "./clock";
+export * from "./random";
+export * from "./totp";
+export * from "./snapshot";
+export * from "./jwt";
+export * from "./keys";
+export * from "./pkce";
 export * from "./createAuthFlowSimulator";
@@ -0,0 +1,289 @@
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  createSecretKey,
+  generateKeyPairSync,
+  sign,
+  timingSafeEqual,
+  verify,
+} from "node:crypto";
+import type { JsonWebKey } from "node:crypto";
+import type {
+  Clock,
+  JwtAlgorithm,
+  JwtHeader,
+  JwtPayload,
+  JwtVerifyOptions,
+  JwtVerifyResult,
+  RandomSource,
+  SigningKey,
+  StoredSigningKey,
+} from "../types/index";
+import { systemClock } from "./clock";
+import { randomString } from "./helpers";
+import { createSeededEcKeyPair, createSeededRsaKeyPair } from "./keys";
+import { mathRandom, secureRandomBytes } from "./random";
+
+/**
+ * Generate a signing key
+ * Keys are derived from `random` when it is seeded, so seeded simulators get the same keys every run.
+ */
+export function createSigningKey(
+  kid: string,
+  alg: JwtAlgorithm = "RS256",
+  random?: RandomSource,
+  clock: Clock = systemClock
+): SigningKey {
+  const createdAt = clock.now();
+  const seeded = random !== undefined && random !== mathRandom;
+
+  switch (alg) {
+    case "HS256": {
+      const secret = createSecretKey(secureRandomBytes(32, random));
+      return { kid, alg, privateKey: secret, publicKey: secret, createdAt };
+    }
+    case "RS256": {
+      const pair = seeded
+        ? createSeededRsaKeyPair(random)
+        : generateKeyPairSync("rsa", { modulusLength: 2048 });
+      return { kid, alg, ...pair, createdAt };
+    }
+    case "ES256": {
+      const pair = seeded
+        ? createSeededEcKeyPair(random)
+        : generateKeyPairSync("ec", { namedCurve: "P-256" });
+      return { kid, alg, ...pair, createdAt };
+    }
+  }
+}
+
+/**
+ * Public half of an RS256 or ES256 key as a JWK, as served from a JWKS endpoint
+ */
+export function toPublicJwk(key: SigningKey): JsonWebKey {
+  if (key.alg === "HS256") {
+    throw new Error(`Key ${key.kid} is a shared secret and has no public JWK`);
+  }
+
+  return {
+    ...key.publicKey.export({ format: "jwk" }),
+    kid: key.kid,
+    alg: key.alg,
+    use: "sig",
+  };
+}
+
+/**
+ * Export a signing key, private half included, so it can be saved with a snapshot
+ */
+export function exportSigningKey(key: SigningKey): StoredSigningKey {
+  return {
+    kid: key.kid,
+    alg: key.alg,
+    privateJwk: key.privateKey.export({ format: "jwk" }),
+    createdAt: key.createdAt,
+  };
+}
+
+/**
+ * Rebuild a signing key exported by exportSigningKey
+ */
+export function importSigningKey(stored: StoredSigningKey): SigningKey {
+  const { kid, alg, privateJwk, createdAt } = stored;
+
+  if (alg === "HS256") {
+    const secret = createSecretKey(Buffer.from(String(privateJwk.k), "base64url"));
+    return { kid, alg, privateKey: secret, publicKey: secret, createdAt };
+  }
+
+  const privateKey = createPrivateKey({ key: privateJwk, format: "jwk" });
+  return { kid, alg, privateKey, publicKey: createPublicKey(privateKey), createdAt };
+}
+
+/**
+ * Sign a payload as a compact JWT
+ */
+export function signJwt(payload: JwtPayload, key: SigningKey): string {
+  const header: JwtHeader = { alg: key.alg, typ: "JWT", kid: key.kid };
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+
+  return `${signingInput}.${createSignature(signingInput, key).toString("base64url")}`;
+}
+
+/**
+ * Decode a JWT without checking its signature
+ */
+export function decodeJwt(token: string): { header: JwtHeader; payload: JwtPayload } | undefined {
+  const [header, payload] = token.split(".");
+  if (header === undefined || payload === undefined) {
+    return undefined;
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(header, "base64url").toString("utf8")) as JwtHeader,
+      payload: JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as JwtPayload,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Verify a JWT's signature against the key named by its `kid`, then its time and audience claims
+ */
+export function verifyJwt(
+  token: string,
+  keys: SigningKey[],
+  options: JwtVerifyOptions = {}
+): JwtVerifyResult {
+  const parts = token.split(".");
+  const decoded = decodeJwt(token);
+  if (parts.length !== 3 || !decoded) {
+    return { valid: false, error: "Malformed token" };
+  }
+
+  const { header, payload } = decoded;
+  const key = keys.find((k) => k.kid === header.kid);
+  if (!key) {
+    return { valid: false, header, error: `Unknown key id: ${String(header.kid)}` };
+  }
+  if (header.alg !== key.alg) {
+    return { valid: false, header, error: `Unexpected algorithm: ${String(header.alg)}` };
+  }
+
+  const signature = Buffer.from(parts[2]!, "base64url");
+  if (!checkSignature(`${parts[0]}.${parts[1]}`, signature, key)) {
+    return { valid: false, header, error: "Invalid signature" };
+  }
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 0;
+
+  if (payload.exp !== undefined && now - tolerance >= payload.exp) {
+    return { valid: false, header, payload, error: "Token expired" };
+  }
+  if (payload.nbf !== undefined && now + tolerance < payload.nbf) {
+    return { valid: false, header, payload, error: "Token not yet valid" };
+  }
+  if (options.issuer !== undefined && payload.iss !== options.issuer) {
+    return { valid: false, header, payload, error: "Unexpected issuer" };
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      return { valid: false, header, payload, error: "Unexpected audience" };
+    }
+  }
+
+  return { valid: true, header, payload };
+}
+
+/**
+ * Signing keys with rotation
+ * New tokens are signed with the newest key; older keys keep verifying the tokens they signed
+ * until they are removed.
+ */
+export class KeyRing {
+  private keys: SigningKey[] = [];
+
+  constructor(
+    private alg: JwtAlgorithm = "RS256",
+    private random?: RandomSource,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Get the key new tokens are signed with, creating the first one on demand
+   */
+  getActiveKey(): SigningKey {
+    return this.keys[this.keys.length - 1] ?? this.rotate();
+  }
+
+  /**
+   * Get the algorithm new keys are created with
+   */
+  getAlgorithm(): JwtAlgorithm {
+    return this.alg;
+  }
+
+  /**
+   * Get every key that still verifies tokens, oldest first
+   */
+  getKeys(): SigningKey[] {
+    return [...this.keys];
+  }
+
+  /**
+   * Public JWKs for the asymmetric keys
+   */
+  getPublicJwks(): JsonWebKey[] {
+    return this.keys.filter((key) => key.alg !== "HS256").map(toPublicJwk);
+  }
+
+  /**
+   * Start signing with a new key, optionally switching algorithm
+   */
+  rotate(alg: JwtAlgorithm = this.alg): SigningKey {
+    this.alg = alg;
+    const key = createSigningKey(
+      `key-${randomString(8, this.random)}`,
+      alg,
+      this.random,
+      this.clock
+    );
+    this.keys.push(key);
+    return key;
+  }
+
+  /**
+   * Replace every key, e.g. when restoring a snapshot
+   * New keys are created with `alg`, or the newest key's algorithm when there is one.
+   */
+  load(keys: SigningKey[], alg: JwtAlgorithm = this.alg): void {
+    this.keys = [...keys];
+    this.alg = keys[keys.length - 1]?.alg ?? alg;
+  }
+
+  /**
+   * Stop accepting tokens signed with a key
+   */
+  removeKey(kid: string): boolean {
+    const count = this.keys.length;
+    this.keys = this.keys.filter((key) => key.kid !== kid);
+    return this.keys.length !== count;
+  }
+}
+
+function createSignature(signingInput: string, key: SigningKey): Buffer {
+  const data = Buffer.from(signingInput);
+
+  switch (key.alg) {
+    case "HS256":
+      return createHmac("sha256", key.privateKey).update(data).digest();
+    case "RS256":
+      return sign("sha256", data, key.privateKey);
+    case "ES256":
+      return sign("sha256", data, { key: key.privateKey, dsaEncoding: "ieee-p1363" });
+  }
+}
+
+function checkSignature(signingInput: string, signature: Buffer, key: SigningKey): boolean {
+  const data = Buffer.from(signingInput);
+
+  switch (key.alg) {
+    case "HS256": {
+      const expected = createHmac("sha256", key.publicKey).update(data).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+    case "RS256":
+      return verify("sha256", data, key.publicKey, signature);
+    case "ES256":
+      return verify("sha256", data, { key: key.publicKey, dsaEncoding: "ieee-p1363" }, signature);
+  }
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
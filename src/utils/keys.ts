@@ -0,0 +1,171 @@
+import { createECDH, createPrivateKey, createPublicKey } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+import type { RandomSource } from "../types/index";
+import { randomBytesFrom } from "./random";
+
+const RSA_PUBLIC_EXPONENT = 65537n;
+const RSA_MODULUS_BITS = 2048;
+
+// Order of the P-256 base point
+const P256_ORDER = BigInt("0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551");
+
+const SMALL_PRIMES = [
+  3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97, 101,
+  103, 107, 109, 113, 127, 131, 137, 139, 149, 151, 157, 163, 167, 173, 179, 181, 191, 193, 197,
+  199, 211, 223, 227, 229, 233, 239, 241, 251,
+].map(BigInt);
+
+const MILLER_RABIN_BASES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37].map(BigInt);
+
+/**
+ * Derive an RSA key pair from a random source, so seeded simulators get the same key every run
+ * node:crypto can't seed key generation, so primes are found here with Miller-Rabin.
+ */
+export function createSeededRsaKeyPair(random: RandomSource): {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+} {
+  const e = RSA_PUBLIC_EXPONENT;
+  for (;;) {
+    const p = findPrime(RSA_MODULUS_BITS / 2, random);
+    const q = findPrime(RSA_MODULUS_BITS / 2, random);
+    const n = p * q;
+    if (p === q || n.toString(2).length !== RSA_MODULUS_BITS) {
+      continue;
+    }
+
+    const phi = (p - 1n) * (q - 1n);
+    const d = modInverse(e, phi);
+    if (d === undefined) {
+      continue;
+    }
+
+    const jwk = {
+      kty: "RSA",
+      n: toBase64Url(n),
+      e: toBase64Url(e),
+      d: toBase64Url(d),
+      p: toBase64Url(p),
+      q: toBase64Url(q),
+      dp: toBase64Url(d % (p - 1n)),
+      dq: toBase64Url(d % (q - 1n)),
+      qi: toBase64Url(modInverse(q, p)!),
+    };
+
+    return {
+      privateKey: createPrivateKey({ key: jwk, format: "jwk" }),
+      publicKey: createPublicKey({ key: { kty: "RSA", n: jwk.n, e: jwk.e }, format: "jwk" }),
+    };
+  }
+}
+
+/**
+ * Derive a P-256 key pair from a random source
+ */
+export function createSeededEcKeyPair(random: RandomSource): {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+} {
+  let d = 0n;
+  while (d === 0n) {
+    d = toBigInt(randomBytesFrom(32, random)) % P256_ORDER;
+  }
+
+  const privateKey = Buffer.from(d.toString(16).padStart(64, "0"), "hex");
+  const ecdh = createECDH("prime256v1");
+  ecdh.setPrivateKey(privateKey);
+  // Uncompressed point: 0x04 followed by x and y
+  const point = ecdh.getPublicKey();
+  const publicJwk = {
+    kty: "EC",
+    crv: "P-256",
+    x: point.subarray(1, 33).toString("base64url"),
+    y: point.subarray(33, 65).toString("base64url"),
+  };
+
+  return {
+    privateKey: createPrivateKey({
+      key: { ...publicJwk, d: privateKey.toString("base64url") },
+      format: "jwk",
+    }),
+    publicKey: createPublicKey({ key: publicJwk, format: "jwk" }),
+  };
+}
+
+function findPrime(bits: number, random: RandomSource): bigint {
+  for (;;) {
+    const bytes = randomBytesFrom(bits / 8, random);
+    // Set the top two bits so the product of two primes has the full length, and make it odd
+    bytes[0] = bytes[0]! | 0xc0;
+    bytes[bytes.length - 1] = bytes[bytes.length - 1]! | 0x01;
+    const candidate = toBigInt(bytes);
+
+    if (isProbablePrime(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+function isProbablePrime(n: bigint): boolean {
+  if (SMALL_PRIMES.some((prime) => n % prime === 0n)) {
+    return false;
+  }
+
+  let d = n - 1n;
+  let s = 0;
+  while (d % 2n === 0n) {
+    d /= 2n;
+    s += 1;
+  }
+
+  return MILLER_RABIN_BASES.every((base) => {
+    let x = modPow(base, d, n);
+    if (x === 1n || x === n - 1n) {
+      return true;
+    }
+    for (let i = 1; i < s; i++) {
+      x = (x * x) % n;
+      if (x === n - 1n) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % modulus;
+    }
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function modInverse(a: bigint, modulus: bigint): bigint | undefined {
+  let [oldR, r] = [a % modulus, modulus];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  if (oldR !== 1n) {
+    return undefined;
+  }
+  return ((oldS % modulus) + modulus) % modulus;
+}
+
+function toBigInt(bytes: Buffer): bigint {
+  return BigInt(`0x${bytes.toString("hex")}`);
+}
+
+function toBase64Url(value: bigint): string {
+  const hex = value.toString(16);
+  return Buffer.from(hex.length % 2 === 0 ? hex : `0${hex}`, "hex").toString("base64url");
+}
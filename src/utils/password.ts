@@ -0,0 +1,65 @@
+import { scryptSync, timingSafeEqual } from "node:crypto";
+import type { RandomSource } from "../types/index";
+import { secureRandomBytes } from "./random";
+
+/**
+ * Password used for mock users that don't specify one
+ */
+export const DEFAULT_MOCK_PASSWORD = "password123";
+
+// Deliberately cheap scrypt parameters: the simulator favours speed over brute-force resistance
+const SCRYPT_COST = 1024;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 32;
+
+/**
+ * Hash a password with scrypt
+ * The result has the form `scrypt$N$r$p$salt$hash` so parameters can change without breaking old hashes
+ */
+export function hashPassword(password: string, random?: RandomSource): string {
+  // A seeded random source makes the salt, and so the hash, reproducible
+  const salt = secureRandomBytes(16, random);
+  const hash = scryptSync(password, salt, KEY_LENGTH, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION,
+  });
+
+  return [
+    "scrypt",
+    SCRYPT_COST,
+    SCRYPT_BLOCK_SIZE,
+    SCRYPT_PARALLELIZATION,
+    salt.toString("hex"),
+    hash.toString("hex"),
+  ].join("$");
+}
+
+/**
+ * Verify a password against a hash produced by `hashPassword`
+ * A missing or malformed hash never matches, rather than throwing.
+ */
+export function verifyPassword(password: string, passwordHash: string | undefined): boolean {
+  const [scheme, cost, blockSize, parallelization, salt, hash] = (passwordHash ?? "").split("$");
+  if (scheme !== "scrypt" || !cost || !blockSize || !parallelization || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  if (expected.length === 0) {
+    return false;
+  }
+
+  try {
+    const actual = scryptSync(password, Buffer.from(salt, "hex"), expected.length, {
+      N: Number(cost),
+      r: Number(blockSize),
+      p: Number(parallelization),
+    });
+    return timingSafeEqual(actual, expected);
+  } catch {
+    // scrypt rejects parameters no hashPassword call would produce
+    return false;
+  }
+}
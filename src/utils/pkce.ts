@@ -0,0 +1,17 @@
+import { createHash } from "node:crypto";
+import type { RandomSource } from "../types/index";
+import { secureRandomBytes } from "./random";
+
+/**
+ * Generate a PKCE code verifier (RFC 7636): 43 base64url characters
+ */
+export function generateCodeVerifier(random?: RandomSource): string {
+  return secureRandomBytes(32, random).toString("base64url");
+}
+
+/**
+ * S256 code challenge for a verifier
+ */
+export function createCodeChallenge(verifier: string): string {
+  return createHash("sha256").update(verifier).digest("base64url");
+}
@@ -0,0 +1,63 @@
+import { randomBytes } from "node:crypto";
+import type { RandomSource } from "../types/index";
+
+/**
+ * Random source backed by Math.random
+ */
+export const mathRandom: RandomSource = {
+  next: () => Math.random(),
+};
+
+/**
+ * Create a deterministic random source (mulberry32) from a numeric or string seed
+ * Two sources created with the same seed produce the same sequence
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === "number" ? seed >>> 0 : hashSeed(seed);
+
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+/**
+ * Pick a random integer in [0, max)
+ */
+export function randomInt(max: number, random: RandomSource = mathRandom): number {
+  return Math.floor(random.next() * max);
+}
+
+/**
+ * Generate random bytes from a random source
+ */
+export function randomBytesFrom(length: number, random: RandomSource = mathRandom): Buffer {
+  const bytes = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = randomInt(256, random);
+  }
+  return bytes;
+}
+
+/**
+ * Generate random bytes for salts and secrets
+ * Uses node:crypto unless a seeded random source is given, in which case the bytes are reproducible
+ */
+export function secureRandomBytes(length: number, random?: RandomSource): Buffer {
+  return random && random !== mathRandom ? randomBytesFrom(length, random) : randomBytes(length);
+}
+
+// FNV-1a, so string seeds spread across the whole 32-bit state
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,221 @@
+import { DEFAULT_CONFIG } from "../simulators/defaults";
+import type {
+  AuthEvent,
+  AuthFlowConfig,
+  AuthSession,
+  LoginAttemptRecord,
+  OAuthStateRecord,
+  OutboxMessage,
+  PasswordResetToken,
+  RefreshTokenRecord,
+  SerializedState,
+  SimulatorState,
+  StoredSigningKey,
+  TwoFactorChallenge,
+  User,
+} from "../types/index";
+
+/**
+ * Current version of the serialised state format
+ * Bump it and add a migration to STATE_MIGRATIONS whenever the shape of SimulatorState changes.
+ */
+export const STATE_SCHEMA_VERSION = 5;
+
+type StateMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations from each older version to the next one
+ */
+const STATE_MIGRATIONS: Record<number, StateMigration> = {
+  // Version 0 is a bare getState() dump from before lockouts, the outbox and stored reset tokens
+  0: (state) =>
+    withConfigDefaults({ loginAttempts: [], outbox: [], resetTokens: [], ...state }, [
+      "rememberMeDuration",
+      "sessionExpiryMode",
+      "trackFailuresByIp",
+      "totpStep",
+      "totpDigits",
+      "totpSkew",
+      "otpCodeExpiry",
+      "otpResendInterval",
+      "passwordResetTokenExpiry",
+    ]),
+  // Version 2 added refresh token families; JWT session tokens arrived alongside them
+  1: (state) =>
+    withConfigDefaults({ refreshTokens: [], ...state }, [
+      "refreshTokenExpiry",
+      "tokenFormat",
+      "jwtAlgorithm",
+      "jwtIssuer",
+      "jwtAudience",
+    ]),
+  // Version 3 added pending OAuth requests and identity linking
+  2: (state) =>
+    withConfigDefaults({ oauthStates: [], ...state }, ["oauthStateExpiry", "oauthLinkPolicy"]),
+  // Version 4 keeps logins waiting for a 2FA code, with their remember-me choice
+  3: (state) => ({ twoFactorChallenges: [], ...state }),
+  // Version 5 keeps the JWT key ring, so tokens issued before a snapshot still verify after it
+  4: (state) => ({ signingKeys: [], ...state }),
+};
+
+/**
+ * Fill in config options introduced by a schema version with their defaults
+ */
+function withConfigDefaults(
+  state: Record<string, unknown>,
+  fields: (keyof AuthFlowConfig)[]
+): Record<string, unknown> {
+  const config = isRecord(state["config"]) ? state["config"] : {};
+  const defaults = Object.fromEntries(fields.map((field) => [field, DEFAULT_CONFIG[field]]));
+  return { ...state, config: { ...defaults, ...config } };
+}
+
+/**
+ * Deep copy simulator state, keeping Dates as Dates
+ */
+export function cloneState(state: SimulatorState): SimulatorState {
+  return cloneValue(state);
+}
+
+/**
+ * Serialise simulator state as versioned JSON
+ */
+export function serializeState(state: SimulatorState): string {
+  const serialized: SerializedState = { version: STATE_SCHEMA_VERSION, state };
+  return JSON.stringify(serialized, null, 2);
+}
+
+/**
+ * Parse state saved by serializeState, migrating older versions and reviving Date fields
+ * Dates nested inside event data are left as ISO strings.
+ */
+export function deserializeState(text: string): SimulatorState {
+  const parsed: unknown = JSON.parse(text);
+  if (!isRecord(parsed)) {
+    throw new Error("Invalid serialised state: expected an object");
+  }
+
+  // Anything without an envelope is a raw getState() dump
+  let version = typeof parsed["version"] === "number" ? parsed["version"] : 0;
+  let state = version === 0 ? parsed : parsed["state"];
+
+  if (version > STATE_SCHEMA_VERSION) {
+    throw new Error(
+      `Serialised state version ${version} is newer than supported version ${STATE_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < STATE_SCHEMA_VERSION) {
+    const migrate = STATE_MIGRATIONS[version];
+    if (!migrate || !isRecord(state)) {
+      throw new Error(`Cannot migrate serialised state from version ${version}`);
+    }
+    state = migrate(state);
+    version += 1;
+  }
+
+  if (!isRecord(state) || !Array.isArray(state["users"]) || !Array.isArray(state["sessions"])) {
+    throw new Error("Invalid serialised state: users and sessions are required");
+  }
+
+  return reviveState(state as unknown as SimulatorState);
+}
+
+function reviveState(state: SimulatorState): SimulatorState {
+  return {
+    ...state,
+    users: state.users.map(reviveUser),
+    sessions: state.sessions.map(reviveSession),
+    events: (state.events ?? []).map(reviveEvent),
+    loginAttempts: (state.loginAttempts ?? []).map(
+      (record): LoginAttemptRecord => reviveDates(record, ["lastFailureAt", "lockedUntil"])
+    ),
+    outbox: (state.outbox ?? []).map(
+      (message): OutboxMessage => reviveDates(message, ["sentAt", "expiresAt", "usedAt"])
+    ),
+    resetTokens: (state.resetTokens ?? []).map(reviveResetToken),
+    refreshTokens: (state.refreshTokens ?? []).map(reviveRefreshToken),
+    oauthStates: (state.oauthStates ?? []).map(
+      (record): OAuthStateRecord => reviveDates(record, ["createdAt", "expiresAt", "usedAt"])
+    ),
+    twoFactorChallenges: (state.twoFactorChallenges ?? []).map(
+      (challenge): TwoFactorChallenge => reviveDates(challenge, ["createdAt"])
+    ),
+    signingKeys: (state.signingKeys ?? []).map(
+      (key): StoredSigningKey => reviveDates(key, ["createdAt"])
+    ),
+  };
+}
+
+/**
+ * Revive a User's Date fields from their JSON form
+ */
+export function reviveUser(user: User): User {
+  const revived = reviveDates(user, ["createdAt", "lastLoginAt", "totpEnrolledAt"]);
+  return user.identities
+    ? {
+        ...revived,
+        identities: user.identities.map((identity) => reviveDates(identity, ["linkedAt"])),
+      }
+    : revived;
+}
+
+/**
+ * Revive an AuthSession's Date fields from their JSON form
+ */
+export function reviveSession(session: AuthSession): AuthSession {
+  return reviveDates(session, ["expiresAt", "createdAt", "lastActivityAt"]);
+}
+
+/**
+ * Revive an AuthEvent's timestamp from its JSON form
+ */
+export function reviveEvent(event: AuthEvent): AuthEvent {
+  return reviveDates(event, ["timestamp"]);
+}
+
+/**
+ * Revive a PasswordResetToken's Date fields from their JSON form
+ */
+export function reviveResetToken(resetToken: PasswordResetToken): PasswordResetToken {
+  return reviveDates(resetToken, ["createdAt", "expiresAt", "usedAt", "supersededAt"]);
+}
+
+/**
+ * Revive a RefreshTokenRecord's Date fields from their JSON form
+ */
+export function reviveRefreshToken(record: RefreshTokenRecord): RefreshTokenRecord {
+  return reviveDates(record, ["createdAt", "expiresAt", "rotatedAt", "revokedAt"]);
+}
+
+function reviveDates<T extends object>(value: T, fields: (keyof T & string)[]): T {
+  const revived = { ...value } as Record<string, unknown>;
+  for (const field of fields) {
+    const date = revived[field];
+    if (typeof date === "string" || typeof date === "number") {
+      revived[field] = new Date(date);
+    }
+  }
+  return revived as T;
+}
+
+function cloneValue<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => cloneValue(item)) as T;
+  }
+  if (isRecord(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneValue(item);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
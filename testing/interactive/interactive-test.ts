@@ -162,9 +162,13 @@ class InteractiveTester {
                 console.log('🔐 2FA required for admin user');
                 console.log(`👤 User: ${loginResult.user?.name}`);
 
+                await this.simulator.send2FACode(loginResult.user.id, 'email');
+                const [message] = this.simulator.getOutbox({ userId: loginResult.user.id }).slice(-1);
+                console.log(`📧 Code from outbox: ${message?.code}`);
+
                 const twoFactorResult = await this.simulator.simulate2FA(loginResult.user.id, {
-                    code: '123456',
-                    method: 'totp'
+                    code: message?.code ?? '',
+                    method: 'email'
                 });
 
                 if (twoFactorResult.success) {
@@ -228,10 +232,12 @@ class InteractiveTester {
         console.log('─'.repeat(30));
 
         try {
+            const { authorization } = await this.simulator.initiateOAuth('google');
             const oauthResult = await this.simulator.simulateOAuthCallback({
                 code: 'oauth-code-123',
-                state: 'random-state',
-                provider: 'google'
+                state: authorization?.state ?? '',
+                provider: 'google',
+                codeVerifier: authorization?.codeVerifier
             });
 
             if (oauthResult.success) {
@@ -51,9 +51,11 @@ async function testPackage(): Promise<void> {
 
         if (twoFactorResult.requires2FA) {
             console.log('✅ 2FA requirement detected');
+            await simulator.send2FACode(twoFactorResult.user!.id, 'email');
+            const [message] = simulator.getOutbox({ userId: twoFactorResult.user!.id }).slice(-1);
             const twoFactorAuth = await simulator.simulate2FA(twoFactorResult.user!.id, {
-                code: '123456',
-                method: 'totp'
+                code: message?.code ?? '',
+                method: 'email'
             });
 
             if (twoFactorAuth.success) {
@@ -78,10 +80,12 @@ async function testPackage(): Promise<void> {
 
         // Test 7: OAuth Flow
         console.log('🔗 Testing OAuth flow...');
+        const { authorization } = await simulator.initiateOAuth('google');
         const oauthResult = await simulator.simulateOAuthCallback({
             code: 'test-code',
-            state: 'test-state',
-            provider: 'google'
+            state: authorization?.state ?? '',
+            provider: 'google',
+            codeVerifier: authorization?.codeVerifier
         });
 
         if (oauthResult.success) {
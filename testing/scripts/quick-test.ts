@@ -37,18 +37,22 @@ async function runBasicTest(): Promise<void> {
             password: 'password123'
         });
         if (twoFactor.requires2FA) {
+            await simulator.send2FACode(twoFactor.user!.id, 'email');
+            const [message] = simulator.getOutbox({ userId: twoFactor.user!.id }).slice(-1);
             const twoFactorAuth = await simulator.simulate2FA(twoFactor.user!.id, {
-                code: '123456',
-                method: 'totp'
+                code: message?.code ?? '',
+                method: 'email'
             });
             console.log(twoFactorAuth.success ? '✅ 2FA test passed' : '❌ 2FA test failed');
         }
 
         // Test OAuth
+        const { authorization } = await simulator.initiateOAuth('google');
         const oauth = await simulator.simulateOAuthCallback({
             code: 'test-code',
-            state: 'test-state',
-            provider: 'google'
+            state: authorization?.state ?? '',
+            provider: 'google',
+            codeVerifier: authorization?.codeVerifier
         });
         console.log(oauth.success ? '✅ OAuth test passed' : '❌ OAuth test failed');
 
@@ -91,12 +95,19 @@ async function runAllFeaturesTest(): Promise<void> {
                 name: '2FA Login', test: async () => {
                     const login = await simulator.simulateLogin({ email: 'admin@example.com', password: 'password123' });
                     if (login.requires2FA) {
-                        return await simulator.simulate2FA(login.user!.id, { code: '123456', method: 'totp' });
+                        await simulator.send2FACode(login.user!.id, 'email');
+                        const [message] = simulator.getOutbox({ userId: login.user!.id }).slice(-1);
+                        return await simulator.simulate2FA(login.user!.id, { code: message?.code ?? '', method: 'email' });
                     }
                     return login;
                 }
             },
-            { name: 'OAuth Login', test: () => simulator.simulateOAuthCallback({ code: 'test', state: 'test', provider: 'google' }) },
+            {
+                name: 'OAuth Login', test: async () => {
+                    const { authorization } = await simulator.initiateOAuth('google');
+                    return simulator.simulateOAuthCallback({ code: 'test', state: authorization?.state ?? '', provider: 'google', codeVerifier: authorization?.codeVerifier });
+                }
+            },
             {
                 name: 'Password Reset', test: async () => {
                     const request = await simulator.simulatePasswordResetRequest({ email: 'user@example.com', redirectUrl: 'https://test.com' });